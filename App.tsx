@@ -4,19 +4,49 @@
 */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { redesignRoom, generateRotatedView } from './services/geminiService';
-import { saveSessionsToDB, loadSessionsFromDB } from './services/storageService';
-import { getImageDimensions } from './utils/fileUtils';
+import { GenerationRequestOptions } from './services/geminiService';
+import { runGeneration } from './services/generationRunner';
+import { saveSessionToDB, deleteSessionFromDB, loadSessionSummariesFromDB, loadSessionFromDB } from './services/storageService';
+import { isUsingMockProvider } from './services/imageProvider';
+import { ImportConflictResolution, exportSessionsToBundle, readSessionBundle, resolveImportedSessions } from './services/bundleService';
+import { getImageDimensions, createThumbnail } from './utils/fileUtils';
+import { AttemptInfo, isCancelledError } from './utils/retry';
+import { createMaskOverlay } from './utils/maskUtils';
+import { isLikelyDrift } from './utils/imageCompare';
+import { GenerationError, toGenerationError } from './services/generationErrors';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
 import Spinner from './components/Spinner';
 import DebugModal from './components/DebugModal';
-import DrawingModal from './components/DrawingModal';
-import AddProductModal from './components/AddProductModal';
+import DrawingModal, { PROTECT_COLOR } from './components/DrawingModal';
+import AddProductModal, { ProductDetails } from './components/AddProductModal';
 import AddBackgroundModal from './components/AddBackgroundModal';
 import EditCanvasModal from './components/EditCanvasModal';
 import HistorySidebar from './components/HistorySidebar';
-import { DesignSession } from './types';
+import VariationsGrid from './components/VariationsGrid';
+import BranchNavigator from './components/BranchNavigator';
+import GenerationDetails from './components/GenerationDetails';
+import ErrorPanel from './components/ErrorPanel';
+import SettingsModal from './components/SettingsModal';
+import ImportConflictModal from './components/ImportConflictModal';
+import CompareModal, { SessionImage } from './components/CompareModal';
+import BeforeAfterViewer from './components/BeforeAfterViewer';
+import GenerationBoard, { MIN_BOARD_ITEMS } from './components/GenerationBoard';
+import CameraModal from './components/CameraModal';
+import TurntablePanel from './components/TurntablePanel';
+import ProductSelector from './components/ProductSelector';
+import TouchGhost from './components/TouchGhost';
+import PlacementBox from './components/PlacementBox';
+import { useObjectUrl } from './hooks/useObjectUrl';
+import { useProductDrag } from './hooks/useProductDrag';
+import { useProductLibrary } from './hooks/useProductLibrary';
+import { useProductPlacement } from './hooks/useProductPlacement';
+import { MAX_VARIATIONS, useVariations } from './hooks/useVariations';
+import { useTurntable } from './hooks/useTurntable';
+import { DesignSession, SessionSummary, EditMask, GenerationNode, GenerationInputs, CameraPose } from './types';
+import { getNextOnBranch, getLatestDescendant, isAncestorOrSelf } from './utils/historyTree';
+import { createPlacedProduct } from './utils/products';
+import { ZERO_CAMERA_POSE, ROTATE_STEP_DEGREES, getCameraMove, getCameraPose, formatCameraPose, isZeroPose } from './utils/cameraPose';
 
 const loadingMessages = [
     "Analyzing your property's layout...",
@@ -29,6 +59,16 @@ const loadingMessages = [
     "Rotating the camera view...",
 ];
 
+const toSessionSummary = ({ id, name, timestamp, thumbnail }: DesignSession): SessionSummary => ({ id, name, timestamp, thumbnail });
+
+// Helper to find where an image shown with object-contain sits in the 16:9 scene frame, as fractions of the frame
+const getSceneFrameContent = ({ width, height }: { width: number; height: number }) => {
+  const frameRatio = 16 / 9;
+  const contentWidth = Math.min(1, width / height / frameRatio);
+  const contentHeight = Math.min(1, frameRatio / (width / height));
+  return { x: (1 - contentWidth) / 2, y: (1 - contentHeight) / 2, width: contentWidth, height: contentHeight };
+};
+
 const ArrowLeftIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5"><path d="M15 18l-6-6 6-6"/></svg>
 );
@@ -45,6 +85,10 @@ const RedoIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5"><path d="M3 9h14.53a2 2 0 0 1 1.79 1.11L22 16"/><path d="M18 13l4 3-4 3"/></svg>
 );
 
+const OriginalIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5"><rect x="3" y="3" width="18" height="18" rx="2"></rect><circle cx="9" cy="9" r="2"></circle><path d="m21 15-3.1-3.1a2 2 0 0 0-2.8 0L6 21"></path></svg>
+);
+
 const TrashIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
 );
@@ -56,45 +100,82 @@ const ScissorsIcon = () => (
 
 const App: React.FC = () => {
   // Session management state
-  const [sessions, setSessions] = useState<DesignSession[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  // Full sessions opened during this visit, keyed by id. Others stay in storage until selected.
+  const [openSessions, setOpenSessions] = useState<Record<string, DesignSession>>({});
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [loadingSessionId, setLoadingSessionId] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
   const [sessionsLoaded, setSessionsLoaded] = useState<boolean>(false);
 
   // Active session's working state
   const [sceneImage, setSceneImage] = useState<File | null>(null);
-  const [productImage, setProductImage] = useState<File | null>(null);
   const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
-  const [sketchedImage, setSketchedImage] = useState<File | null>(null);
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [editMask, setEditMask] = useState<EditMask | null>(null);
+  const [generations, setGenerations] = useState<GenerationNode[]>([]);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+  // The node redo walks towards; undo keeps it so the branch can be replayed.
+  const [branchTipId, setBranchTipId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('');
   const [originalDimensions, setOriginalDimensions] = useState<{width: number, height: number} | null>(null);
 
   // UI state
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  // The message shown in the error panel, plus the typed failure behind it when it came from a generation.
+  const [error, setErrorState] = useState<{ message: string; cause: GenerationError | null } | null>(null);
   const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
+  const [attemptInfo, setAttemptInfo] = useState<AttemptInfo | null>(null);
   
   const [debugImageUrl, setDebugImageUrl] = useState<string | null>(null);
   const [debugPrompt, setDebugPrompt] = useState<string | null>(null);
   const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
   const [isDrawingModalOpen, setIsDrawingModalOpen] = useState(false);
+  const [isProtectModalOpen, setIsProtectModalOpen] = useState(false);
+  // Tinted image of the locked areas, shown over the main image while showLockedAreas is on.
+  const [lockedOverlayUrl, setLockedOverlayUrl] = useState<string | null>(null);
+  const [showLockedAreas, setShowLockedAreas] = useState(true);
   const [isAddProductModalOpen, setIsAddProductModalOpen] = useState(false);
   const [isAddBackgroundModalOpen, setIsAddBackgroundModalOpen] = useState(false);
   const [isEditCanvasModalOpen, setIsEditCanvasModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isBeforeAfterOpen, setIsBeforeAfterOpen] = useState(false);
+  const [isBoardOpen, setIsBoardOpen] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // A bundle waiting for the user to decide what to do with projects that already exist.
+  const [pendingImport, setPendingImport] = useState<DesignSession[] | null>(null);
 
   const sceneUploaderRef = useRef<HTMLImageElement>(null);
+  // Sessions as last written to storage, used to persist only what changed.
+  const persistedSessionsRef = useRef<Record<string, DesignSession>>({});
+  // Guards against an older session load finishing after a newer selection.
+  const selectRequestRef = useRef(0);
+  // Cancels the request behind the loading overlay.
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const currentGeneratedImage = history[historyIndex] ?? null;
+  const currentNode = generations.find(n => n.id === currentNodeId) ?? null;
+  const currentGeneratedImage = currentNode?.file ?? null;
+  // Flags a result that probably redrew the scene instead of editing it.
+  const currentCameraPose = getCameraPose(generations, currentNodeId);
+  const isCurrentDrifted = currentNode?.metadata?.operation === 'edit' && isLikelyDrift(currentNode.metadata.fidelityScore);
   
   // The image that is currently main on the screen. This is what we edit.
-  const currentWorkingImage = sketchedImage || currentGeneratedImage || sceneImage;
+  const currentWorkingImage = currentGeneratedImage || sceneImage;
+
+  const sceneImageUrl = useObjectUrl(sceneImage);
+  const editMaskPreviewUrl = useObjectUrl(editMask?.preview);
+  const generatedImageUrl = useObjectUrl(currentGeneratedImage);
+  const workingImageUrl = generatedImageUrl || sceneImageUrl;
+  const displayImageUrl = editMaskPreviewUrl || workingImageUrl;
 
-  const sceneImageUrl = sceneImage ? URL.createObjectURL(sceneImage) : null;
-  const sketchedImageUrl = sketchedImage ? URL.createObjectURL(sketchedImage) : null;
-  const generatedImageUrl = currentGeneratedImage ? URL.createObjectURL(currentGeneratedImage) : null;
-  const displayImageUrl = generatedImageUrl || sketchedImageUrl || sceneImageUrl;
+  const savedCandidates = (activeSessionId && openSessions[activeSessionId]?.candidates) || [];
+  const protectedMask = (activeSessionId && openSessions[activeSessionId]?.protectedMask) || null;
+  // Locked areas are painted over the original viewpoint and no longer line up once the camera has moved,
+  // so edits of a rotated view go ahead without them.
+  const isLockPausedForView = !!protectedMask && !isZeroPose(currentCameraPose);
+  const activeProtectedMask = isLockPausedForView ? null : protectedMask;
+  const turntables = (activeSessionId && openSessions[activeSessionId]?.turntables) || [];
+  const sidebarSessions = sessions.map(s => openSessions[s.id] ? toSessionSummary(openSessions[s.id]) : s);
   
   // Effect to cycle loading messages
   useEffect(() => {
@@ -108,58 +189,153 @@ const App: React.FC = () => {
 
   // Effect for loading/saving sessions from/to storage
   useEffect(() => {
-    loadSessionsFromDB().then(loadedSessions => {
-      setSessions(loadedSessions);
-      if (loadedSessions.length > 0) {
+    loadSessionSummariesFromDB().then(summaries => {
+      setSessions(summaries);
+      setSessionsLoaded(true);
+      if (summaries.length > 0) {
         // Activate the most recent session
-        handleSelectSession(loadedSessions[0].id);
+        handleSelectSession(summaries[0].id);
       }
-      setSessionsLoaded(true);
     });
   }, []);
 
+  // Effect to render the locked-area overlay whenever the session's protected mask changes
   useEffect(() => {
-    if (sessionsLoaded) {
-      saveSessionsToDB(sessions);
+    if (!protectedMask) {
+      setLockedOverlayUrl(null);
+      return;
     }
-  }, [sessions, sessionsLoaded]);
+    let cancelled = false;
+    createMaskOverlay(protectedMask, PROTECT_COLOR)
+      .then(url => { if (!cancelled) setLockedOverlayUrl(url); })
+      .catch(err => console.error("Could not render locked areas:", err));
+    return () => { cancelled = true; };
+  }, [protectedMask]);
+
+  useEffect(() => {
+    if (!sessionsLoaded) return;
+    // Session objects are replaced on every change, so identity tells us which ones to write.
+    Object.keys(openSessions).forEach(id => {
+      const session = openSessions[id];
+      if (persistedSessionsRef.current[id] !== session) {
+        persistedSessionsRef.current[id] = session;
+        saveSessionToDB(session);
+      }
+    });
+  }, [openSessions, sessionsLoaded]);
+
+  const setError = (message: string | null, cause: GenerationError | null = null) => {
+    setErrorState(message ? { message, cause } : null);
+  };
+
+  const updateSession = (sessionId: string, update: (session: DesignSession) => DesignSession) => {
+    setOpenSessions(prev => prev[sessionId] ? { ...prev, [sessionId]: update(prev[sessionId]) } : prev);
+  };
+
+  const { placedProducts, addPlacedProduct, placeProduct, moveProduct, placeInScene, removeProduct, clearPlacedProducts } = useProductPlacement({
+    originalDimensions,
+    onError: setError,
+  });
+  const { libraryProducts, addLibraryProduct, deleteLibraryProduct } = useProductLibrary({ onError: setError });
+  const {
+    isProductDraggingOver, touchGhostUrl, touchGhostPosition,
+    handleProductDragStart, handleProductDragEnd, handleProductDragOver, handleProductDragLeave, handleProductDrop,
+    handleProductTouchStart, handleProductTouchMove, handleProductTouchEnd,
+  } = useProductDrag({
+    sceneRef: sceneUploaderRef,
+    dropzoneId: 'scene-uploader',
+    disabled: isLoading,
+    onDrop: placeProduct,
+  });
+
+  const {
+    variationCount, setVariationCount, variations, isVariationsOpen, setIsVariationsOpen, isGeneratingVariations,
+    generateVariations, retryVariation, cancelVariations, promoteVariations, discardVariations, showVariations, resetVariations,
+  } = useVariations({
+    activeSessionId,
+    savedCandidates,
+    updateSession,
+    onVariationDone: (node, debugImageUrl) => {
+      setDebugImageUrl(debugImageUrl);
+      setDebugPrompt(node.metadata?.finalPrompt ?? null);
+    },
+  });
+
+  const refreshThumbnail = (sessionId: string, file: File) => {
+    createThumbnail(file)
+      .then(thumbnail => updateSession(sessionId, s => ({ ...s, thumbnail })))
+      .catch(err => console.error("Could not update project thumbnail:", err));
+  };
 
 
   const clearWorkingState = () => {
     setSceneImage(null);
-    setProductImage(null);
+    clearPlacedProducts();
     setBackgroundImage(null);
-    setSketchedImage(null);
-    setHistory([]);
-    setHistoryIndex(-1);
+    setEditMask(null);
+    setGenerations([]);
+    setCurrentNodeId(null);
+    setBranchTipId(null);
     setPrompt('');
     setError(null);
     setIsLoading(false);
     setDebugImageUrl(null);
     setDebugPrompt(null);
     setOriginalDimensions(null);
+    resetVariations();
+    setIsBeforeAfterOpen(false);
+    setIsTurntableOpen(false);
   }
 
-  const handleNewProject = useCallback(() => {
+  const handleNewProject = () => {
     clearWorkingState();
     setActiveSessionId(null);
-  }, []);
+  };
   
-  const handleSelectSession = useCallback((sessionId: string) => {
-    const session = sessions.find(s => s.id === sessionId);
-    if (session) {
-      clearWorkingState();
-      setSceneImage(session.sceneImage);
-      setOriginalDimensions(session.originalDimensions);
-      setHistory(session.generations);
-      setHistoryIndex(session.generations.length - 1);
-      setActiveSessionId(session.id);
+  // Loads a fully fetched session into the working state.
+  const showSession = (session: DesignSession) => {
+    clearWorkingState();
+    setSceneImage(session.sceneImage);
+    setOriginalDimensions(session.originalDimensions);
+    const startNodeId = session.currentGenerationId !== undefined
+      ? session.currentGenerationId
+      : getLatestDescendant(session.generations, null);
+    setGenerations(session.generations);
+    setCurrentNodeId(startNodeId);
+    setBranchTipId(startNodeId);
+    setActiveSessionId(session.id);
+  };
+
+  const handleSelectSession = useCallback(async (sessionId: string) => {
+    const requestId = ++selectRequestRef.current;
+    let session: DesignSession | null = openSessions[sessionId] ?? null;
+    if (!session) {
+      // Only summaries are loaded at startup; fetch the images the first time a session is opened.
+      setLoadingSessionId(sessionId);
+      session = await loadSessionFromDB(sessionId);
+      if (requestId !== selectRequestRef.current) return;
+      setLoadingSessionId(null);
+      if (!session) {
+        setError('Could not load this project from storage.');
+        return;
+      }
+      const loaded = session;
+      persistedSessionsRef.current[sessionId] = loaded;
+      setOpenSessions(prev => prev[sessionId] ? prev : { ...prev, [sessionId]: loaded });
     }
-  }, [sessions]);
+
+    showSession(session);
+  }, [openSessions]);
 
   const handleDeleteSession = useCallback((sessionId: string) => {
     const remainingSessions = sessions.filter(s => s.id !== sessionId);
     setSessions(remainingSessions);
+    setOpenSessions(prev => {
+      const { [sessionId]: _deleted, ...rest } = prev;
+      return rest;
+    });
+    delete persistedSessionsRef.current[sessionId];
+    deleteSessionFromDB(sessionId);
 
     if (activeSessionId === sessionId) {
       if (remainingSessions.length > 0) {
@@ -170,36 +346,109 @@ const App: React.FC = () => {
     }
   }, [activeSessionId, sessions, handleSelectSession, handleNewProject]);
 
+  const handleExportSessions = async (sessionIds: string[]) => {
+    try {
+      const loaded = await Promise.all(sessionIds.map(id => openSessions[id] ?? loadSessionFromDB(id)));
+      const sessionsToExport = loaded.filter((s): s is DesignSession => s !== null);
+      if (sessionsToExport.length === 0) {
+        throw new Error('The selected projects could not be loaded from storage.');
+      }
+      const bundle = await exportSessionsToBundle(sessionsToExport);
+      const fileName = sessionsToExport.length === 1
+        ? `${sessionsToExport[0].name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'project'}.zip`
+        : `archidesigner-projects-${Date.now()}.zip`;
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to export projects. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  const applyImport = (imported: DesignSession[], resolution: ImportConflictResolution) => {
+    const sessionsToAdd = resolveImportedSessions(imported, new Set(sessions.map(s => s.id)), resolution);
+    if (sessionsToAdd.length === 0) return;
+
+    const addedIds = new Set(sessionsToAdd.map(s => s.id));
+    setSessions(prev => [...sessionsToAdd.map(toSessionSummary), ...prev.filter(s => !addedIds.has(s.id))]
+      .sort((a, b) => b.timestamp - a.timestamp));
+    // The persistence effect writes these to storage, overwriting replaced projects.
+    setOpenSessions(prev => {
+      const next = { ...prev };
+      sessionsToAdd.forEach(s => { next[s.id] = s; });
+      return next;
+    });
+
+    const replacedActive = sessionsToAdd.find(s => s.id === activeSessionId);
+    if (replacedActive) {
+      showSession(replacedActive);
+    } else if (!activeSessionId) {
+      showSession(sessionsToAdd[0]);
+    }
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      const imported = await readSessionBundle(file);
+      if (imported.length === 0) {
+        throw new Error('The bundle does not contain any projects.');
+      }
+      setError(null);
+      if (imported.some(s => sessions.some(existing => existing.id === s.id))) {
+        setPendingImport(imported);
+      } else {
+        applyImport(imported, 'keep-both');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to import projects. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  const handleResolveImportConflict = (resolution: ImportConflictResolution) => {
+    if (pendingImport) {
+      applyImport(pendingImport, resolution);
+    }
+    setPendingImport(null);
+  };
+
   const handleSceneImageUpload = async (file: File) => {
     try {
       const dimensions = await getImageDimensions(file);
-      const thumbnailReader = new FileReader();
-      thumbnailReader.readAsDataURL(file);
-      thumbnailReader.onload = () => {
-        const newSession: DesignSession = {
-          id: Date.now().toString(),
-          name: `Design ${sessions.length + 1}`,
-          timestamp: Date.now(),
-          thumbnail: thumbnailReader.result as string,
-          sceneImage: file,
-          originalDimensions: dimensions,
-          generations: []
-        };
-        
-        setSessions(prev => [newSession, ...prev]);
-        setActiveSessionId(newSession.id);
-        
-        // Load this new session into the working state
-        setSceneImage(file);
-        setOriginalDimensions(dimensions);
-        setHistory([]);
-        setHistoryIndex(-1);
-        setPrompt('');
-        setSketchedImage(null);
-        setProductImage(null);
-        setBackgroundImage(null);
-        setError(null);
-      }
+      const thumbnail = await createThumbnail(file);
+      const newSession: DesignSession = {
+        id: Date.now().toString(),
+        name: `Design ${sessions.length + 1}`,
+        timestamp: Date.now(),
+        thumbnail,
+        sceneImage: file,
+        originalDimensions: dimensions,
+        generations: []
+      };
+      
+      setSessions(prev => [toSessionSummary(newSession), ...prev]);
+      setOpenSessions(prev => ({ ...prev, [newSession.id]: newSession }));
+      setActiveSessionId(newSession.id);
+      
+      // Load this new session into the working state
+      setSceneImage(file);
+      setOriginalDimensions(dimensions);
+      setGenerations([]);
+      setCurrentNodeId(null);
+      setBranchTipId(null);
+      setPrompt('');
+      setEditMask(null);
+      clearPlacedProducts();
+      setBackgroundImage(null);
+      setError(null);
     } catch(err) {
       console.error("Could not create new session:", err);
       setError("Could not read image dimensions. Please try a different image.");
@@ -224,19 +473,76 @@ const App: React.FC = () => {
     }
   }, [sessions]);
   
-  const addImageToHistory = (newImage: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImage);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Adds new nodes to the tree, leaving every other branch intact, and moves to the last one.
+  const addNodesToHistory = (newNodes: GenerationNode[]) => {
+    const newGenerations = [...generations, ...newNodes];
+    const newCurrentId = newNodes[newNodes.length - 1]?.id ?? currentNodeId;
+    setGenerations(newGenerations);
+    setCurrentNodeId(newCurrentId);
+    setBranchTipId(newCurrentId);
 
     if (activeSessionId) {
-      setSessions(prevSessions => prevSessions.map(s => 
-        s.id === activeSessionId ? { ...s, generations: newHistory } : s
-      ));
+      updateSession(activeSessionId, s => ({ ...s, generations: newGenerations, currentGenerationId: newCurrentId }));
+      const latest = newNodes[newNodes.length - 1];
+      if (latest) refreshThumbnail(activeSessionId, latest.file);
     }
   };
 
+
+  const selectGeneration = (nodeId: string | null, tipId: string | null) => {
+    setCurrentNodeId(nodeId);
+    setBranchTipId(tipId);
+    setEditMask(null);
+    if (activeSessionId) {
+      updateSession(activeSessionId, s => ({ ...s, currentGenerationId: nodeId }));
+    }
+  };
+
+  // Starts a request behind the loading overlay and returns the options that make it cancellable.
+  const beginRequest = (): GenerationRequestOptions => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setAttemptInfo(null);
+    setIsLoading(true);
+    setError(null);
+    return { signal: controller.signal, onAttempt: setAttemptInfo };
+  };
+
+  const endRequest = () => {
+    abortControllerRef.current = null;
+    setAttemptInfo(null);
+    setIsLoading(false);
+  };
+
+  const handleCancelRequest = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const { isTurntableOpen, setIsTurntableOpen, turntableProgress, runTurntable, regenerateTurntableFrame, deleteTurntable } = useTurntable({
+    activeSessionId,
+    sceneImage,
+    currentWorkingImage,
+    originalDimensions,
+    generations,
+    currentNodeId,
+    turntables,
+    updateSession,
+    addNodesToHistory,
+    beginRequest,
+    endRequest,
+    setError,
+  });
+
+  // The inputs of an edit of the current design with everything set up for the next generation.
+  const getEditInputs = (sourceImage: File): GenerationInputs => ({
+    sourceImage,
+    userPrompt: prompt,
+    products: placedProducts,
+    backgroundImage,
+    mask: editMask?.mask ?? null,
+    protectedMask: activeProtectedMask,
+  });
+
   const handleGenerate = useCallback(async () => {
     const imageToProcess = currentWorkingImage;
     if (!imageToProcess || !prompt || !originalDimensions) {
@@ -244,85 +550,161 @@ const App: React.FC = () => {
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    const requestOptions = beginRequest();
     try {
-      const { finalImageUrl, debugImageUrl, finalPrompt } = await redesignRoom(
-        imageToProcess,
-        originalDimensions.width,
-        originalDimensions.height,
-        prompt,
-        productImage,
-        backgroundImage,
-        !!sketchedImage,
-      );
-      
-      const newGeneratedFile = await (await fetch(finalImageUrl)).blob().then(blob => new File([blob], `generated-scene-${Date.now()}.jpeg`, {type: 'image/jpeg'}));
+      const { node, debugImageUrl } = await runGeneration('edit', getEditInputs(imageToProcess), originalDimensions, currentNodeId, requestOptions);
       
-      addImageToHistory(newGeneratedFile);
+      addNodesToHistory([node]);
       
-      setSketchedImage(null);
-      setProductImage(null);
+      setEditMask(null);
+      clearPlacedProducts();
       setBackgroundImage(null);
       setPrompt('');
 
       setDebugImageUrl(debugImageUrl);
-      setDebugPrompt(finalPrompt);
+      setDebugPrompt(node.metadata?.finalPrompt ?? null);
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate the image. ${errorMessage}`);
+      if (isCancelledError(err)) return;
+      const cause = toGenerationError(err);
+      setError(`Failed to generate the image. ${cause.message}`, cause);
       console.error(err);
     } finally {
-      setIsLoading(false);
+      endRequest();
+    }
+  }, [currentWorkingImage, prompt, placedProducts, backgroundImage, editMask, activeProtectedMask, originalDimensions, generations, currentNodeId, activeSessionId]);
+
+  const handleGenerateVariations = async () => {
+    const imageToProcess = currentWorkingImage;
+    if (!imageToProcess || !prompt || !originalDimensions) {
+      setError('Please upload an image of your property and provide a design prompt.');
+      return;
+    }
+
+    setError(null);
+    const results = await generateVariations({
+      sessionId: activeSessionId,
+      parentId: currentNodeId,
+      inputs: getEditInputs(imageToProcess),
+      dimensions: originalDimensions,
+    });
+
+    if (results.includes('done')) {
+      setEditMask(null);
+      clearPlacedProducts();
+      setBackgroundImage(null);
+      setPrompt('');
+    } else if (!results.includes('cancelled')) {
+      setError('None of the variations could be generated. Please try again.');
     }
-  }, [currentWorkingImage, prompt, productImage, backgroundImage, originalDimensions, history, historyIndex, activeSessionId]);
+  };
+
+  const handlePromoteVariations = (candidateIds: string[]) => {
+    const promoted = promoteVariations(candidateIds);
+    if (promoted.length === 0) return;
 
-  const handleRotateView = useCallback(async (direction: 'left' | 'right') => {
+    // Variations of the same batch become sibling branches of the generation they were made from.
+    // If that generation no longer exists, they attach to the current one instead.
+    addNodesToHistory(promoted.map(n => (
+      n.parentId === null || generations.some(g => g.id === n.parentId) ? n : { ...n, parentId: currentNodeId }
+    )));
+  };
+
+  const handleRotateView = useCallback(async (move: CameraPose) => {
     const imageToRotate = currentWorkingImage;
     if (!imageToRotate || !originalDimensions) {
       setError('An image must be present to create a rotated view.');
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    const requestOptions = beginRequest();
+    try {
+        const inputs: GenerationInputs = {
+            sourceImage: imageToRotate,
+            userPrompt: null,
+            backgroundImage: null,
+            cameraMove: move,
+        };
+        const parentPose = getCameraPose(generations, currentNodeId);
+        const { node } = await runGeneration('rotate', inputs, originalDimensions, currentNodeId, requestOptions, parentPose);
+        addNodesToHistory([node]);
+    } catch (err) {
+        if (isCancelledError(err)) return;
+        const cause = toGenerationError(err);
+        setError(`Failed to generate the rotated view. ${cause.message}`, cause);
+        console.error(err);
+    } finally {
+        endRequest();
+    }
+  }, [currentWorkingImage, originalDimensions, activeSessionId, generations, currentNodeId]);
+
+  // Runs a recorded generation again with identical inputs; the result becomes a sibling of the original.
+  // A strict re-run asks the model to preserve the scene more closely, with a fresh seed, after a result drifted.
+  const handleRerunGeneration = useCallback(async (nodeId: string, strict: boolean = false) => {
+    const node = generations.find(n => n.id === nodeId);
+    if (!node?.metadata || !originalDimensions) {
+      setError('This generation has no recorded inputs to re-run.');
+      return;
+    }
 
+    const requestOptions = beginRequest();
     try {
-        const { finalImageUrl } = await generateRotatedView(
-            imageToRotate,
-            originalDimensions.width,
-            originalDimensions.height,
-            direction
+        const { metadata } = node;
+        const { node: newNode, debugImageUrl } = await runGeneration(
+            metadata.operation,
+            strict
+                ? { ...metadata.inputs, seed: undefined, strict: true }
+                // Keep a seed that came from settings so the re-run stays reproducible after settings change.
+                : { ...metadata.inputs, seed: metadata.inputs.seed ?? metadata.parameters?.seed ?? undefined },
+            originalDimensions,
+            node.parentId,
+            requestOptions,
+            getCameraPose(generations, node.parentId),
         );
-        const newRotatedFile = await (await fetch(finalImageUrl)).blob().then(blob => new File([blob], `rotated-scene-${Date.now()}.jpeg`, {type: 'image/jpeg'}));
-        addImageToHistory(newRotatedFile);
+        addNodesToHistory([newNode]);
+        if (debugImageUrl) {
+            setDebugImageUrl(debugImageUrl);
+            setDebugPrompt(newNode.metadata?.finalPrompt ?? null);
+        }
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate the rotated view. ${errorMessage}`);
+        if (isCancelledError(err)) return;
+        const cause = toGenerationError(err);
+        setError(`Failed to re-run the generation. ${cause.message}`, cause);
         console.error(err);
     } finally {
-        setIsLoading(false);
+        endRequest();
     }
-  }, [currentWorkingImage, originalDimensions, activeSessionId]);
+  }, [generations, currentNodeId, originalDimensions, activeSessionId]);
+
+  // Goes back to the original photo; every generation stays in the tree, and redo walks back along the branch.
+  const handleRevertToOriginal = () => selectGeneration(null, branchTipId);
 
-  const handleRevertToOriginal = useCallback(() => {
-    setHistory([]);
-    setHistoryIndex(-1);
-    setSketchedImage(null);
+  // Deletes every generation and turntable of the session, after the user confirms.
+  const handleClearHistory = useCallback(() => {
+    if (!window.confirm('Delete every generation and turntable of this project? This cannot be undone.')) return;
+    setGenerations([]);
+    setCurrentNodeId(null);
+    setBranchTipId(null);
+    setEditMask(null);
     if (activeSessionId) {
-      setSessions(prev => prev.map(s => 
-        s.id === activeSessionId ? { ...s, generations: [] } : s
-      ));
+      updateSession(activeSessionId, s => ({ ...s, generations: [], currentGenerationId: null, turntables: [] }));
+      if (sceneImage) refreshThumbnail(activeSessionId, sceneImage);
     }
-  }, [activeSessionId]);
+  }, [activeSessionId, sceneImage]);
 
-  const handleSaveSketch = useCallback(async (dataUrl: string) => {
-    const file = await (await fetch(dataUrl)).blob().then(blob => new File([blob], `sketch-${Date.now()}.png`, {type: 'image/png'}));
-    setSketchedImage(file);
+  const handleSaveSketch = useCallback((mask: EditMask | null) => {
+    setEditMask(mask);
     setIsDrawingModalOpen(false);
   }, []);
 
+  const handleSaveProtectedMask = (mask: EditMask | null) => {
+    if (activeSessionId) {
+      updateSession(activeSessionId, s => ({ ...s, protectedMask: mask?.mask ?? null }));
+    }
+    setShowLockedAreas(true);
+    setIsProtectModalOpen(false);
+  };
+
   const handleSaveCanvasEdit = async (newFile: File) => {
       try {
           const dimensions = await getImageDimensions(newFile);
@@ -333,20 +715,18 @@ const App: React.FC = () => {
           setOriginalDimensions(dimensions);
           
           // Clear dependent states that might be misaligned
-          setSketchedImage(null); 
+          setEditMask(null); 
           
           // We can choose to keep history or clear it. 
           // Clearing it avoids confusion with different aspect ratios in the undo stack.
           // A safer UX for now is to treat this as a new "Base".
-          setHistory([]);
-          setHistoryIndex(-1);
+          setGenerations([]);
+          setCurrentNodeId(null);
+          setBranchTipId(null);
           
           if (activeSessionId) {
-              setSessions(prev => prev.map(s => 
-                  s.id === activeSessionId 
-                  ? { ...s, sceneImage: newFile, originalDimensions: dimensions, generations: [] } 
-                  : s
-              ));
+              updateSession(activeSessionId, s => ({ ...s, sceneImage: newFile, originalDimensions: dimensions, generations: [], currentGenerationId: null, protectedMask: null, turntables: [] }));
+              refreshThumbnail(activeSessionId, newFile);
           }
       } catch (e) {
           console.error("Failed to update image dimensions", e);
@@ -358,20 +738,56 @@ const App: React.FC = () => {
     if (!generatedImageUrl) return;
     const link = document.createElement('a');
     link.href = generatedImageUrl;
-    link.download = `design-${Date.now()}.jpeg`;
+    link.download = `design-${Date.now()}.${currentGeneratedImage?.type === 'image/png' ? 'png' : 'jpeg'}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
   
-  const handleUndo = () => historyIndex >= 0 && setHistoryIndex(historyIndex - 1);
-  const handleRedo = () => historyIndex < history.length - 1 && setHistoryIndex(historyIndex + 1);
-  const handleRemoveSketch = () => setSketchedImage(null);
-  const handleRemoveProduct = () => setProductImage(null);
+  const nextOnBranchId = getNextOnBranch(generations, currentNodeId, branchTipId);
+
+  // Every image of the session that can be compared: the original, each generation in order,
+  // and the edit area marked right now.
+  const getSessionImages = (): SessionImage[] => {
+    if (!sceneImage) return [];
+    const images: SessionImage[] = [{ id: 'original', label: 'Original scene', file: sceneImage }];
+    [...generations].sort((a, b) => a.createdAt - b.createdAt).forEach((node, index) => {
+      const inputs = node.metadata?.inputs;
+      const time = new Date(node.createdAt).toLocaleTimeString();
+      const description = node.metadata?.operation === 'rotate'
+        ? `Camera: ${inputs ? formatCameraPose(getCameraMove(inputs)) : ''}`
+        : inputs?.userPrompt || 'Generation';
+      images.push({ id: node.id, label: `Step ${index + 1}: ${description} (${time})`, file: node.file });
+    });
+    if (editMask) {
+      images.push({ id: 'edit-mask', label: 'Marked edit area', file: editMask.preview });
+    }
+    return images;
+  };
+
+  const handleUndo = () => {
+    if (currentNodeId === null) return;
+    const parentId = generations.find(n => n.id === currentNodeId)?.parentId ?? null;
+    selectGeneration(parentId, branchTipId);
+  };
+  const handleRedo = () => nextOnBranchId && selectGeneration(nextOnBranchId, branchTipId);
+
+  // Selecting a node on the current branch keeps its tip; elsewhere, redo follows that node's newest descendant.
+  const handleSelectGeneration = (nodeId: string | null) => {
+    const tipId = isAncestorOrSelf(generations, nodeId, branchTipId) ? branchTipId : getLatestDescendant(generations, nodeId);
+    selectGeneration(nodeId, tipId);
+  };
+  const handleRemoveSketch = () => setEditMask(null);
+  const handleRemoveProtectedMask = () => {
+    if (activeSessionId) {
+      updateSession(activeSessionId, s => ({ ...s, protectedMask: null }));
+    }
+  };
   const handleRemoveBackground = () => setBackgroundImage(null);
 
-  const handleAddCustomProduct = (file: File) => {
-    setProductImage(file);
+  // Saves a new product to the library and adds it to the next generation, leaving its position to the model.
+  const handleSaveProduct = (details: ProductDetails) => {
+    addPlacedProduct(createPlacedProduct(addLibraryProduct(details)));
     setIsAddProductModalOpen(false);
   };
 
@@ -380,71 +796,133 @@ const App: React.FC = () => {
     setIsAddBackgroundModalOpen(false);
   };
   
-  const canUndo = historyIndex >= 0;
-  const canRedo = historyIndex < history.length - 1;
+  const canUndo = currentNodeId !== null;
+  const canRedo = nextOnBranchId !== null;
+  const sessionImages = isCompareOpen || isBeforeAfterOpen ? getSessionImages() : [];
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
-      <Header onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} />
+      <Header onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} onOpenSettings={() => setIsSettingsOpen(true)} />
       <div className="w-full max-w-8xl mx-auto flex flex-1 overflow-hidden px-4 sm:px-6 md:px-8">
         <HistorySidebar 
           isOpen={isSidebarOpen}
-          sessions={sessions}
+          sessions={sidebarSessions}
           activeSessionId={activeSessionId}
+          loadingSessionId={loadingSessionId}
           onSelectSession={handleSelectSession}
           onNewSession={handleNewProject}
           onDeleteSession={handleDeleteSession}
+          onExportSessions={handleExportSessions}
+          onImportBundle={handleImportBundle}
         />
         <main className={`flex-1 flex flex-col items-center p-0 sm:p-2 md:p-4 transition-all duration-300 ${isSidebarOpen ? 'md:ml-72' : 'ml-0'}`}>
           <div className="w-full max-w-4xl mx-auto flex flex-col gap-8">
             <div className={`relative p-4 sm:p-6 bg-white dark:bg-gray-800/50 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 transition-opacity duration-500 ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
               
-              <div className="relative group">
-                <ImageUploader
-                  ref={sceneUploaderRef}
-                  id="scene-uploader"
-                  onFileSelect={handleSceneImageUpload}
-                  imageUrl={displayImageUrl}
-                  disabled={isLoading || !!activeSessionId}
+              {isBeforeAfterOpen && currentNode ? (
+                <BeforeAfterViewer
+                  after={sessionImages.find(image => image.id === currentNode.id) ?? { id: currentNode.id, label: 'Current design', file: currentNode.file }}
+                  candidates={sessionImages.filter(image => image.id !== currentNode.id)}
+                  initialBeforeId="original"
+                  onClose={() => setIsBeforeAfterOpen(false)}
                 />
-                
-                {sceneImage && (
-                  <div className="absolute top-3 right-3 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                    {history.length > 0 && (
-                        <>
-                            <button onClick={handleUndo} disabled={!canUndo} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><UndoIcon /></button>
-                            <button onClick={handleRedo} disabled={!canRedo} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><RedoIcon /></button>
-                        </>
+              ) : (
+                <div className="relative group">
+                  <ImageUploader
+                    ref={sceneUploaderRef}
+                    id="scene-uploader"
+                    onFileSelect={handleSceneImageUpload}
+                    imageUrl={displayImageUrl}
+                    overlayUrl={showLockedAreas && !isLockPausedForView ? lockedOverlayUrl : null}
+                    disabled={isLoading || !!activeSessionId}
+                    isProductDraggingOver={isProductDraggingOver}
+                    onProductDragOver={handleProductDragOver}
+                    onProductDragLeave={handleProductDragLeave}
+                    onProductDrop={handleProductDrop}
+                  >
+                    {originalDimensions && placedProducts.map((placed, index) => placed.box && (
+                      <PlacementBox
+                        key={placed.id}
+                        product={placed}
+                        box={placed.box}
+                        index={index}
+                        frame={getSceneFrameContent(originalDimensions)}
+                        disabled={isLoading}
+                        onChange={(box) => moveProduct(placed.id, box)}
+                        onRemove={() => removeProduct(placed.id)}
+                      />
+                    ))}
+                  </ImageUploader>
+                  
+                  {sceneImage && (
+                    <div className="absolute top-3 right-3 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                      {generations.length > 0 && (
+                          <>
+                              <button onClick={handleUndo} disabled={!canUndo} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><UndoIcon /></button>
+                              <button onClick={handleRedo} disabled={!canRedo} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><RedoIcon /></button>
+                          </>
+                      )}
+                      <button onClick={() => handleRotateView({ ...ZERO_CAMERA_POSE, yaw: -ROTATE_STEP_DEGREES })} disabled={isLoading} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><ArrowLeftIcon /></button>
+                      <button onClick={() => handleRotateView({ ...ZERO_CAMERA_POSE, yaw: ROTATE_STEP_DEGREES })} disabled={isLoading} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><ArrowRightIcon /></button>
+                      {currentNodeId !== null && (
+                          <button onClick={handleRevertToOriginal} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white" title="Back to the original photo" aria-label="Back to the original photo"><OriginalIcon /></button>
+                      )}
+                      {generations.length > 0 && (
+                          <button onClick={handleClearHistory} disabled={isLoading} className="p-2 bg-red-600/80 hover:bg-red-600 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed" title="Delete all generations" aria-label="Delete all generations"><TrashIcon /></button>
+                      )}
+                    </div>
+                  )}
+                  
+                  <div className="absolute top-2 left-2 flex flex-col items-start gap-2">
+                    {editMask && (
+                      <div className="bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
+                        <span>Edit Area Marked</span>
+                        <button onClick={handleRemoveSketch} className="font-bold text-lg leading-none hover:text-blue-200 transition">&times;</button>
+                      </div>
                     )}
-                    <button onClick={() => handleRotateView('left')} disabled={isLoading} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><ArrowLeftIcon /></button>
-                    <button onClick={() => handleRotateView('right')} disabled={isLoading} className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed"><ArrowRightIcon /></button>
-                    {(history.length > 0 || sketchedImage) && (
-                        <button onClick={handleRevertToOriginal} className="p-2 bg-red-600/80 hover:bg-red-600 rounded-full text-white"><TrashIcon /></button>
+                    {!isZeroPose(currentCameraPose) && (
+                      <div className="bg-black/60 text-white text-xs font-bold px-2 py-1 rounded-full shadow-lg" title="Camera pose relative to the original photo">
+                        View: {formatCameraPose(currentCameraPose)}
+                      </div>
+                    )}
+                    {isLockPausedForView && (
+                      <div className="bg-gray-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg" title="Locked areas were drawn on the original view and don't line up after a camera move, so edits of this view can change them. Go back to the original view to keep them locked.">
+                        <span>Locks Paused in This View</span>
+                        <button onClick={handleRemoveProtectedMask} className="font-bold text-lg leading-none hover:text-gray-200 transition" aria-label="Unlock all areas">&times;</button>
+                      </div>
+                    )}
+                    {protectedMask && !isLockPausedForView && (
+                      <div className="bg-sky-700 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
+                        <button onClick={() => setShowLockedAreas(!showLockedAreas)} className="hover:text-sky-200 transition" title={showLockedAreas ? 'Hide locked areas' : 'Show locked areas'}>
+                          Areas Locked{showLockedAreas ? '' : ' (hidden)'}
+                        </button>
+                        <button onClick={handleRemoveProtectedMask} className="font-bold text-lg leading-none hover:text-sky-200 transition" aria-label="Unlock all areas">&times;</button>
+                      </div>
                     )}
                   </div>
-                )}
-                
-                {sketchedImage && (
-                  <div className="absolute top-2 left-2 bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
-                    <span>Sketch Applied</span>
-                    <button onClick={handleRemoveSketch} className="font-bold text-lg leading-none hover:text-blue-200 transition">&times;</button>
-                  </div>
-                )}
-                <div className="absolute bottom-2 left-2 flex flex-col gap-2">
-                  {productImage && (
-                    <div className="bg-green-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
-                      <span>Product Added</span>
-                      <button onClick={handleRemoveProduct} className="font-bold text-lg leading-none hover:text-green-200 transition">&times;</button>
-                    </div>
-                  )}
-                  {backgroundImage && (
-                    <div className="bg-purple-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
-                      <span>Background Added</span>
-                      <button onClick={handleRemoveBackground} className="font-bold text-lg leading-none hover:text-purple-200 transition">&times;</button>
+                  {isCurrentDrifted && currentNode && (
+                    <div className="absolute bottom-2 right-2 bg-amber-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg" title="Much of the scene outside the edited area changed. The model may have redrawn the image instead of editing it.">
+                      <span>Scene Drifted ({Math.round((currentNode.metadata?.fidelityScore ?? 0) * 100)}% fidelity)</span>
+                      <button onClick={() => handleRerunGeneration(currentNode.id, true)} disabled={isLoading} className="underline hover:text-amber-100 transition disabled:opacity-50">Retry Stricter</button>
                     </div>
                   )}
+                  <div className="absolute bottom-2 left-2 flex flex-col gap-2">
+                    {placedProducts.filter(p => !p.box).map(placed => (
+                      <div key={placed.id} className="bg-green-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg" title="The model will choose where to place this product">
+                        <span>{placed.name}</span>
+                        <button onClick={() => placeInScene(placed)} disabled={isLoading} className="underline hover:text-green-200 transition disabled:opacity-50">Place</button>
+                        <button onClick={() => removeProduct(placed.id)} className="font-bold text-lg leading-none hover:text-green-200 transition" aria-label={`Remove ${placed.name}`}>&times;</button>
+                      </div>
+                    ))}
+                    {backgroundImage && (
+                      <div className="bg-purple-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-2 shadow-lg">
+                        <span>Background Added</span>
+                        <button onClick={handleRemoveBackground} className="font-bold text-lg leading-none hover:text-purple-200 transition">&times;</button>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {!sceneImage && !isLoading && (
                 <div className="mt-4 text-center">
@@ -466,9 +944,20 @@ const App: React.FC = () => {
                       className="flex-grow w-full px-4 py-3 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition"
                       disabled={isLoading}
                     />
+                    <select
+                      value={variationCount}
+                      onChange={(e) => setVariationCount(Number(e.target.value))}
+                      disabled={isLoading || isGeneratingVariations}
+                      className="w-full md:w-auto px-3 py-3 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition"
+                      aria-label="Number of variations"
+                    >
+                      {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count === 1 ? '1 image' : `${count} variations`}</option>
+                      ))}
+                    </select>
                     <button
-                      onClick={handleGenerate}
-                      disabled={isLoading || !prompt}
+                      onClick={variationCount > 1 ? handleGenerateVariations : handleGenerate}
+                      disabled={isLoading || isGeneratingVariations || !prompt}
                       className="w-full md:w-auto px-6 py-3 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex-shrink-0"
                     >
                       Generate
@@ -476,8 +965,19 @@ const App: React.FC = () => {
                   </div>
                   <div className="flex flex-col sm:flex-row gap-4 justify-center flex-wrap">
                     <button onClick={() => setIsDrawingModalOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
-                      Sketch on Image
+                      Mark Area to Edit
+                    </button>
+                    <button onClick={() => setIsProtectModalOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                      {protectedMask ? 'Edit Locked Areas' : 'Lock Areas'}
+                    </button>
+                    <button onClick={() => setIsCameraOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                      Move Camera
                     </button>
+                    {!isTurntableOpen && (
+                      <button onClick={() => setIsTurntableOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                        Turntable{turntables.length > 0 ? ` (${turntables.length})` : ''}
+                      </button>
+                    )}
                     <button onClick={() => setIsEditCanvasModalOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition flex items-center justify-center gap-2">
                       <ScissorsIcon />
                       Trim / Expand
@@ -488,6 +988,26 @@ const App: React.FC = () => {
                     <button onClick={() => setIsAddBackgroundModalOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
                       Upload Background
                     </button>
+                    {!isVariationsOpen && (variations.length > 0 || savedCandidates.length > 0) && (
+                      <button onClick={showVariations} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                        Show Variations ({variations.length > 0 ? variations.length : savedCandidates.length})
+                      </button>
+                    )}
+                    {currentNode && !isBeforeAfterOpen && (
+                      <button onClick={() => setIsBeforeAfterOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                        Before / After
+                      </button>
+                    )}
+                    {generations.length > 0 && (
+                      <button onClick={() => setIsCompareOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                        Compare
+                      </button>
+                    )}
+                    {generations.length >= MIN_BOARD_ITEMS && (
+                      <button onClick={() => setIsBoardOpen(true)} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                        Options Board
+                      </button>
+                    )}
                     {generatedImageUrl && (
                       <button onClick={handleDownload} className="w-full sm:w-auto px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
                         Download Design
@@ -498,21 +1018,93 @@ const App: React.FC = () => {
               )}
             </div>
             
+            {sceneImage && !isBeforeAfterOpen && (
+              <ProductSelector
+                products={libraryProducts}
+                onAddOwnProductClick={() => setIsAddProductModalOpen(true)}
+                onProductDragStart={handleProductDragStart}
+                onProductDragEnd={handleProductDragEnd}
+                onProductTouchStart={handleProductTouchStart}
+                onProductTouchMove={handleProductTouchMove}
+                onProductTouchEnd={handleProductTouchEnd}
+                onDeleteProduct={deleteLibraryProduct}
+              />
+            )}
+
+            {generations.length > 0 && (
+              <BranchNavigator
+                nodes={generations}
+                currentNodeId={currentNodeId}
+                branchTipId={branchTipId}
+                originalImageUrl={sceneImageUrl}
+                onSelectNode={handleSelectGeneration}
+              />
+            )}
+
+            {currentNodeId && (
+              <GenerationDetails
+                node={currentNode}
+                onRerun={handleRerunGeneration}
+                onRetryStricter={nodeId => handleRerunGeneration(nodeId, true)}
+                disabled={isLoading}
+              />
+            )}
+
+            {isVariationsOpen && variations.length > 0 && (
+              <VariationsGrid
+                candidates={variations}
+                onPromote={handlePromoteVariations}
+                onRetry={retryVariation}
+                onCancel={cancelVariations}
+                onDiscard={discardVariations}
+                onClose={() => setIsVariationsOpen(false)}
+              />
+            )}
+
+            {isTurntableOpen && sceneImage && (
+              <TurntablePanel
+                sequences={turntables}
+                nodes={generations}
+                sceneImage={sceneImage}
+                onGenerate={runTurntable}
+                onRegenerateFrame={regenerateTurntableFrame}
+                onDelete={deleteTurntable}
+                onClose={() => setIsTurntableOpen(false)}
+                disabled={isLoading}
+              />
+            )}
+
             {isLoading && (
               <div className="fixed inset-0 bg-white/80 dark:bg-gray-900/80 z-40 flex flex-col items-center justify-center backdrop-blur-sm">
                 <Spinner />
                 <p className="mt-4 text-lg font-semibold text-gray-700 dark:text-gray-300 animate-pulse">{loadingMessages[loadingMessageIndex]}</p>
+                {turntableProgress && (
+                  <p className="mt-2 text-sm font-semibold text-gray-600 dark:text-gray-400">Frame {turntableProgress.current} of {turntableProgress.total}</p>
+                )}
+                {attemptInfo && attemptInfo.attempt > 1 && (
+                  <div className="mt-2 max-w-md px-4 text-center text-sm text-amber-700 dark:text-amber-300">
+                    <p className="font-semibold">Attempt {attemptInfo.attempt} of {attemptInfo.maxAttempts}</p>
+                    {attemptInfo.lastError && <p className="line-clamp-2">Previous attempt failed: {attemptInfo.lastError}</p>}
+                  </div>
+                )}
+                <button
+                  onClick={handleCancelRequest}
+                  className="mt-6 px-6 py-2 border border-gray-400 dark:border-gray-500 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+                >
+                  Cancel
+                </button>
               </div>
             )}
             
             {error && (
-              <div className="w-full p-4 bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-700 text-red-800 dark:text-red-200 rounded-lg animate-fade-in" role="alert">
-                <strong>Error:</strong> {error}
-              </div>
+              <ErrorPanel message={error.message} cause={error.cause} onDismiss={() => setError(null)} />
             )}
           
             <footer className="w-full max-w-4xl mx-auto flex justify-between items-center pb-8">
               <button onClick={handleNewProject} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">Start New Project</button>
+              {isUsingMockProvider() && (
+                <span className="text-xs font-semibold px-2 py-1 rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300">Offline mock provider</span>
+              )}
               {debugImageUrl && (
                 <button onClick={() => setIsDebugModalOpen(true)} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">Show Debug View</button>
               )}
@@ -522,12 +1114,45 @@ const App: React.FC = () => {
         </main>
       </div>
 
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} onSave={() => setIsSettingsOpen(false)} />
+      <ImportConflictModal
+        isOpen={!!pendingImport}
+        conflictingNames={(pendingImport ?? []).filter(s => sessions.some(existing => existing.id === s.id)).map(s => s.name)}
+        totalCount={pendingImport?.length ?? 0}
+        onResolve={handleResolveImportConflict}
+        onClose={() => setPendingImport(null)}
+      />
+      <CompareModal
+        isOpen={isCompareOpen}
+        onClose={() => setIsCompareOpen(false)}
+        images={isCompareOpen ? sessionImages : []}
+        initialPair={[currentNode?.parentId ?? 'original', currentNodeId ?? 'original']}
+      />
+      <GenerationBoard
+        isOpen={isBoardOpen}
+        onClose={() => setIsBoardOpen(false)}
+        nodes={generations}
+        // Open with the most recent generations, oldest first.
+        initialSelectedIds={[...generations].sort((a, b) => b.createdAt - a.createdAt).slice(0, 4).reverse().map(n => n.id)}
+      />
+      <CameraModal
+        isOpen={isCameraOpen}
+        onClose={() => setIsCameraOpen(false)}
+        currentPose={currentCameraPose}
+        onGenerate={move => { setIsCameraOpen(false); handleRotateView(move); }}
+        disabled={isLoading}
+      />
       <DebugModal isOpen={isDebugModalOpen} onClose={() => setIsDebugModalOpen(false)} imageUrl={debugImageUrl} prompt={debugPrompt} />
       <EditCanvasModal isOpen={isEditCanvasModalOpen} onClose={() => setIsEditCanvasModalOpen(false)} onSave={handleSaveCanvasEdit} imageFile={currentWorkingImage} />
-      {displayImageUrl && (
-        <DrawingModal isOpen={isDrawingModalOpen} onClose={() => setIsDrawingModalOpen(false)} onSave={handleSaveSketch} backgroundImageUrl={displayImageUrl} />
+      {workingImageUrl && (
+        <DrawingModal isOpen={isDrawingModalOpen} onClose={() => setIsDrawingModalOpen(false)} onSave={handleSaveSketch} backgroundImageUrl={workingImageUrl} initialMask={editMask?.mask ?? null} />
+      )}
+      {sceneImageUrl && (
+        // Locked areas belong to the original photo, whichever generation or view is showing.
+        <DrawingModal isOpen={isProtectModalOpen} onClose={() => setIsProtectModalOpen(false)} onSave={handleSaveProtectedMask} backgroundImageUrl={sceneImageUrl} initialMask={protectedMask} mode="protect" />
       )}
-      <AddProductModal isOpen={isAddProductModalOpen} onClose={() => setIsAddProductModalOpen(false)} onFileSelect={handleAddCustomProduct} />
+      <AddProductModal isOpen={isAddProductModalOpen} onClose={() => setIsAddProductModalOpen(false)} onSave={handleSaveProduct} />
+      <TouchGhost imageUrl={touchGhostUrl} position={touchGhostPosition} />
       <AddBackgroundModal isOpen={isAddBackgroundModalOpen} onClose={() => setIsAddBackgroundModalOpen(false)} onFileSelect={handleAddCustomBackground} />
     </div>
   );
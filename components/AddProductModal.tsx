@@ -2,13 +2,19 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import ImageUploader from './ImageUploader';
+import CutoutEditor from './CutoutEditor';
+import { Product, ProductCategory, ProductDimensions } from '../types';
+import { PRODUCT_CATEGORIES, parseTags } from '../utils/products';
+
+// Everything about a product except what the library assigns when it is saved.
+export type ProductDetails = Omit<Product, 'id' | 'createdAt'>;
 
 interface AddProductModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onFileSelect: (file: File) => void;
+  onSave: (details: ProductDetails) => void;
 }
 
 const CloseIcon = () => (
@@ -17,7 +23,42 @@ const CloseIcon = () => (
     </svg>
 );
 
-const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFileSelect }) => {
+// Helper to read an optional positive number from a text field
+const parseSize = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onSave }) => {
+  const [image, setImage] = useState<File | null>(null);
+  // The photo as uploaded; image is a cutout of it once the background has been removed.
+  const [originalImage, setOriginalImage] = useState<File | null>(null);
+  const [isCutoutOpen, setIsCutoutOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<ProductCategory>('furniture');
+  const [tagText, setTagText] = useState('');
+  const [size, setSize] = useState({ width: '', height: '', depth: '' });
+  const [unit, setUnit] = useState<ProductDimensions['unit']>('cm');
+  const [vendorUrl, setVendorUrl] = useState('');
+
+  // Every product starts from a blank form.
+  useEffect(() => {
+    if (isOpen) {
+      setImage(null);
+      setOriginalImage(null);
+      setIsCutoutOpen(false);
+      setName('');
+      setCategory('furniture');
+      setTagText('');
+      setSize({ width: '', height: '', depth: '' });
+      setUnit('cm');
+      setVendorUrl('');
+    }
+  }, [isOpen]);
+
+  const imageUrl = useMemo(() => image ? URL.createObjectURL(image) : null, [image]);
+  useEffect(() => () => { if (imageUrl) URL.revokeObjectURL(imageUrl); }, [imageUrl]);
+
   if (!isOpen) {
     return null;
   }
@@ -25,39 +66,160 @@ const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFi
   const handleModalContentClick = (e: React.MouseEvent) => {
     e.stopPropagation();
   };
-  
-  const handleFileUploaded = (file: File) => {
-      onFileSelect(file);
-      // No need to call onClose here, as the parent component will handle it 
-      // in the onFileSelect callback for better state flow control.
-  }
+
+  const handleFileSelect = (file: File) => {
+    setImage(file);
+    setOriginalImage(file);
+    setIsCutoutOpen(false);
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const width = parseSize(size.width);
+  const height = parseSize(size.height);
+  // Dimensions are optional, but width and height go together.
+  const hasPartialSize = (width === null) !== (height === null) || (parseSize(size.depth) !== null && width === null);
+  const trimmedUrl = vendorUrl.trim();
+  const isUrlValid = !trimmedUrl || /^https?:\/\/\S+$/i.test(trimmedUrl);
+  // The cutout must be applied or dismissed first, so unsaved brush work isn't silently dropped.
+  const canSave = !!image && !!name.trim() && !hasPartialSize && isUrlValid && !isCutoutOpen;
+
+  const handleCutoutApply = (cutout: File) => {
+    setImage(cutout);
+    setIsCutoutOpen(false);
+  };
+
+  const handleSave = () => {
+    if (!image || !canSave) return;
+    onSave({
+      name: name.trim(),
+      image,
+      category,
+      tags: parseTags(tagText),
+      dimensions: width !== null && height !== null ? { width, height, depth: parseSize(size.depth), unit } : null,
+      vendorUrl: trimmedUrl || null,
+    });
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition";
+  const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1";
 
   return (
-    <div 
+    <div
       className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
       onClick={onClose}
       aria-modal="true"
       role="dialog"
     >
-      <div 
-        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all"
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
         onClick={handleModalContentClick}
         role="document"
       >
-        <button 
+        <button
           onClick={onClose}
           className="absolute top-4 right-4 text-zinc-500 dark:text-gray-400 hover:text-zinc-800 dark:hover:text-white transition-colors"
           aria-label="Close modal"
         >
           <CloseIcon />
         </button>
-        <div className="text-center">
-          <h2 className="text-2xl font-extrabold mb-4 text-zinc-800 dark:text-gray-100">Add Your Own Product</h2>
+        <div className="text-center flex-shrink-0">
+          <h2 className="text-2xl font-extrabold mb-1 text-zinc-800 dark:text-gray-100">Add Your Own Product</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Saved to your product library for use in any project.</p>
+        </div>
+
+        <div className="flex flex-col gap-4 overflow-y-auto pr-1">
+          {isCutoutOpen && originalImage ? (
+            <CutoutEditor source={originalImage} onApply={handleCutoutApply} onCancel={() => setIsCutoutOpen(false)} />
+          ) : (
+            <>
+              <ImageUploader id="custom-product-uploader" onFileSelect={handleFileSelect} imageUrl={imageUrl} aspectRatio="square" />
+              {originalImage && (
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {image !== originalImage ? 'Background removed.' : 'Remove a studio background so the model uses only the product.'}
+                  </span>
+                  <div className="flex gap-3 flex-shrink-0">
+                    {image !== originalImage && (
+                      <button onClick={() => setImage(originalImage)} className="text-gray-600 dark:text-gray-400 underline hover:text-gray-900 dark:hover:text-gray-100 transition">
+                        Use Original
+                      </button>
+                    )}
+                    <button onClick={() => setIsCutoutOpen(true)} className="font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+                      {image !== originalImage ? 'Redo Cutout' : 'Remove Background'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div>
+            <label htmlFor="product-name" className={labelClassName}>Name</label>
+            <input id="product-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="product-category" className={labelClassName}>Category</label>
+              <select id="product-category" value={category} onChange={(e) => setCategory(e.target.value as ProductCategory)} className={inputClassName}>
+                {PRODUCT_CATEGORIES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="product-tags" className={labelClassName}>Tags</label>
+              <input id="product-tags" type="text" value={tagText} onChange={(e) => setTagText(e.target.value)} placeholder="e.g. oak, outdoor" className={inputClassName} />
+            </div>
+          </div>
+
+          <div>
+            <span className={labelClassName}>Real-World Size (optional)</span>
+            <div className="flex items-center gap-2">
+              {(['width', 'height', 'depth'] as const).map(field => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  value={size[field]}
+                  onChange={(e) => setSize(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={field === 'depth' ? 'Depth' : field === 'width' ? 'Width' : 'Height'}
+                  aria-label={field}
+                  className={inputClassName}
+                />
+              ))}
+              <select value={unit} onChange={(e) => setUnit(e.target.value as ProductDimensions['unit'])} className={`${inputClassName} w-auto`} aria-label="Unit">
+                <option value="cm">cm</option>
+                <option value="in">in</option>
+              </select>
+            </div>
+            {hasPartialSize && <p className="mt-1 text-xs text-red-600 dark:text-red-400">Enter both a width and a height, or leave the size empty.</p>}
+          </div>
+
+          <div>
+            <label htmlFor="product-vendor" className={labelClassName}>Vendor Link (optional)</label>
+            <input id="product-vendor" type="url" value={vendorUrl} onChange={(e) => setVendorUrl(e.target.value)} placeholder="https://" className={inputClassName} />
+            {!isUrlValid && <p className="mt-1 text-xs text-red-600 dark:text-red-400">Enter a full web address starting with http:// or https://.</p>}
+          </div>
+        </div>
+
+        <div className="mt-6 flex gap-3 justify-end flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            Save and Use
+          </button>
         </div>
-        <ImageUploader id="custom-product-uploader" onFileSelect={onFileSelect} imageUrl={null} />
       </div>
     </div>
   );
 };
 
-export default AddProductModal;
\ No newline at end of file
+export default AddProductModal;
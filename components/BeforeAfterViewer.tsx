@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SessionImage } from './CompareModal';
+
+type ViewMode = 'wipe' | 'side-by-side' | 'hold';
+
+interface BeforeAfterViewerProps {
+  // The image being reviewed, normally the current generation.
+  after: SessionImage;
+  // Images it can be compared with; the first is selected unless initialBeforeId is given.
+  candidates: SessionImage[];
+  initialBeforeId?: string;
+  onClose: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const ExpandIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" />
+    </svg>
+);
+
+const CollapseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M8 4v4H4M16 4v4h4M8 20v-4H4M16 20v-4h4" />
+    </svg>
+);
+
+const modeLabels: Record<ViewMode, string> = {
+  'wipe': 'Wipe',
+  'side-by-side': 'Side by Side',
+  'hold': 'Hold to Compare',
+};
+
+const Label: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <span className={`absolute top-2 bg-black/60 text-white text-xs font-bold px-2 py-1 rounded-full max-w-[45%] truncate pointer-events-none ${className}`}>{text}</span>
+);
+
+const BeforeAfterViewer: React.FC<BeforeAfterViewerProps> = ({ after, candidates, initialBeforeId, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<ViewMode>('wipe');
+  const [beforeId, setBeforeId] = useState<string | null>(initialBeforeId ?? candidates[0]?.id ?? null);
+  // Position of the wipe divider, as a percentage of the stage width.
+  const [position, setPosition] = useState(50);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isHolding, setIsHolding] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const before = candidates.find(c => c.id === beforeId) ?? candidates[0] ?? null;
+
+  const afterUrl = useMemo(() => URL.createObjectURL(after.file), [after.file]);
+  const beforeUrl = useMemo(() => before ? URL.createObjectURL(before.file) : null, [before?.file]);
+  useEffect(() => () => URL.revokeObjectURL(afterUrl), [afterUrl]);
+  useEffect(() => () => { if (beforeUrl) URL.revokeObjectURL(beforeUrl); }, [beforeUrl]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(err => console.error("Could not leave fullscreen:", err));
+    } else {
+      containerRef.current?.requestFullscreen().catch(err => console.error("Could not enter fullscreen:", err));
+    }
+  };
+
+  const handleClose = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  };
+
+  const moveDivider = (clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode === 'wipe') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setIsDragging(true);
+      moveDivider(e.clientX);
+    } else if (mode === 'hold') {
+      setIsHolding(true);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (mode === 'wipe' && isDragging) moveDivider(e.clientX);
+  };
+
+  const handlePointerUp = () => {
+    setIsDragging(false);
+    setIsHolding(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mode === 'wipe' && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault();
+      setPosition(p => Math.min(100, Math.max(0, p + (e.key === 'ArrowLeft' ? -2 : 2))));
+    }
+  };
+
+  const beforeLabel = before ? `Before: ${before.label}` : 'Before';
+  const afterLabel = `After: ${after.label}`;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`flex flex-col gap-2 ${isFullscreen ? 'bg-black p-4 h-full' : ''}`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+          {(Object.keys(modeLabels) as ViewMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 font-semibold transition ${mode === m ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : `${isFullscreen ? 'text-gray-200' : 'text-gray-700 dark:text-gray-300'} hover:bg-gray-100 dark:hover:bg-gray-700`}`}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={before?.id ?? ''}
+          onChange={(e) => setBeforeId(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition"
+          aria-label="Compare with"
+        >
+          {candidates.map(c => <option key={c.id} value={c.id}>Compare with: {c.label}</option>)}
+        </select>
+        <button onClick={toggleFullscreen} className={`p-2 rounded-lg ${isFullscreen ? 'text-gray-200 hover:bg-white/10' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'} transition`} aria-label={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}>
+          {isFullscreen ? <CollapseIcon /> : <ExpandIcon />}
+        </button>
+        <button onClick={handleClose} className={`p-2 rounded-lg ${isFullscreen ? 'text-gray-200 hover:bg-white/10' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'} transition`} aria-label="Close comparison">
+          <CloseIcon />
+        </button>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className={`grid grid-cols-1 sm:grid-cols-2 gap-2 ${isFullscreen ? 'flex-grow min-h-0' : ''}`}>
+          {[{ url: beforeUrl, label: beforeLabel }, { url: afterUrl, label: afterLabel }].map(({ url, label }) => (
+            <div key={label} className={`relative w-full ${isFullscreen ? 'h-full' : 'aspect-video'} bg-gray-100 dark:bg-gray-800 rounded-xl overflow-hidden`}>
+              {url && <img src={url} alt={label} className="w-full h-full object-contain" />}
+              <Label text={label} className="left-2" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          ref={stageRef}
+          className={`relative w-full ${isFullscreen ? 'flex-grow min-h-0' : 'aspect-video'} bg-gray-100 dark:bg-gray-800 rounded-xl overflow-hidden select-none touch-none ${mode === 'wipe' ? 'cursor-ew-resize' : 'cursor-pointer'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={mode === 'hold' ? handlePointerUp : undefined}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          role={mode === 'wipe' ? 'slider' : undefined}
+          aria-valuenow={mode === 'wipe' ? Math.round(position) : undefined}
+          aria-label={mode === 'wipe' ? 'Before and after divider' : 'Hold to show the before image'}
+        >
+          {/* Both images are letterboxed identically, so clipping the top one reveals the matching part of the other. */}
+          <img src={afterUrl} alt={afterLabel} className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+          {beforeUrl && (mode === 'wipe' || isHolding) && (
+            <img
+              src={beforeUrl}
+              alt={beforeLabel}
+              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+              style={mode === 'wipe' ? { clipPath: `inset(0 ${100 - position}% 0 0)` } : undefined}
+              draggable={false}
+            />
+          )}
+          {mode === 'wipe' && (
+            <>
+              <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position}%` }}>
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-gray-700 text-xs font-bold">&harr;</div>
+              </div>
+              <Label text={beforeLabel} className="left-2" />
+              <Label text={afterLabel} className="right-2" />
+            </>
+          )}
+          {mode === 'hold' && (
+            <Label text={isHolding ? beforeLabel : `${afterLabel} (press and hold to see before)`} className="left-2 max-w-[90%]" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeforeAfterViewer;
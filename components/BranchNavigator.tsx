@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo } from 'react';
+import { GenerationNode } from '../types';
+import { getChildren, getPathToNode } from '../utils/historyTree';
+
+interface BranchNavigatorProps {
+  nodes: GenerationNode[];
+  currentNodeId: string | null;
+  branchTipId: string | null;
+  originalImageUrl: string | null;
+  onSelectNode: (nodeId: string | null) => void;
+}
+
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ nodes, currentNodeId, branchTipId, originalImageUrl, onSelectNode }) => {
+  const thumbnailUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    nodes.forEach(n => { urls[n.id] = URL.createObjectURL(n.file); });
+    return urls;
+  }, [nodes]);
+
+  useEffect(() => {
+    return () => Object.keys(thumbnailUrls).forEach(id => URL.revokeObjectURL(thumbnailUrls[id]));
+  }, [thumbnailUrls]);
+
+  // Number generations in creation order so labels stay stable across branches.
+  const generationNumbers = useMemo(() => {
+    const numbers: Record<string, number> = {};
+    [...nodes].sort((a, b) => a.createdAt - b.createdAt).forEach((n, i) => { numbers[n.id] = i + 1; });
+    return numbers;
+  }, [nodes]);
+
+  const branchIds = useMemo(() => new Set(getPathToNode(nodes, branchTipId).map(n => n.id)), [nodes, branchTipId]);
+
+  const renderEntry = (nodeId: string | null, imageUrl: string | null, label: string, subLabel: string) => {
+    const isCurrent = nodeId === currentNodeId;
+    const isOnBranch = nodeId === null || branchIds.has(nodeId);
+    return (
+      <button
+        onClick={() => onSelectNode(nodeId)}
+        className={`flex items-center gap-3 p-1.5 pr-3 rounded-lg border-2 text-left transition-colors ${
+          isCurrent ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30' : 'border-transparent hover:bg-gray-100 dark:hover:bg-gray-700/50'
+        }`}
+      >
+        {imageUrl ? (
+          <img src={imageUrl} alt={label} className="w-16 h-10 object-cover rounded-md bg-gray-200 dark:bg-gray-700" />
+        ) : (
+          <div className="w-16 h-10 rounded-md bg-gray-200 dark:bg-gray-700" />
+        )}
+        <div className="min-w-0">
+          <p className={`text-sm truncate ${isOnBranch ? 'font-bold text-gray-900 dark:text-gray-100' : 'font-medium text-gray-600 dark:text-gray-400'}`}>{label}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{subLabel}</p>
+        </div>
+      </button>
+    );
+  };
+
+  const renderChildren = (parentId: string | null): React.ReactNode => {
+    const children = getChildren(nodes, parentId);
+    if (children.length === 0) return null;
+    return (
+      <ul className="ml-6 pl-3 border-l-2 border-gray-200 dark:border-gray-700 flex flex-col gap-1 mt-1">
+        {children.map(child => (
+          <li key={child.id}>
+            {renderEntry(
+              child.id,
+              thumbnailUrls[child.id],
+              `Generation ${generationNumbers[child.id]}`,
+              new Date(child.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            )}
+            {renderChildren(child.id)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800/50 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-1">Design History</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Pick any version to continue from it. Earlier branches are kept.</p>
+      <div className="overflow-x-auto">
+        {renderEntry(null, originalImageUrl, 'Original', 'Uploaded photo')}
+        {renderChildren(null)}
+      </div>
+    </div>
+  );
+};
+
+export default BranchNavigator;
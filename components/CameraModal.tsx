@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { CameraPose } from '../types';
+import { ZERO_CAMERA_POSE, MIN_ELEVATION, MAX_ELEVATION, addCameraPoses, formatCameraPose, isZeroPose } from '../utils/cameraPose';
+
+interface CameraModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Pose of the image on screen, relative to the original photo.
+  currentPose: CameraPose;
+  onGenerate: (move: CameraPose) => void;
+  disabled?: boolean;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+// Camera heights relative to the original photo, which is assumed to be taken at eye level.
+const ELEVATION_PRESETS = [
+  { label: 'Street Level', elevation: 0 },
+  { label: 'Elevated', elevation: 20 },
+  { label: 'Aerial', elevation: 45 },
+  { label: "Bird's-eye", elevation: 80 },
+];
+
+const YAW_PRESETS = [-90, -45, 45, 90, 180];
+
+const presetClassName = (isActive: boolean) => `px-3 py-1 text-xs font-semibold rounded-full border transition ${
+  isActive
+    ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 border-transparent'
+    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+}`;
+
+const SliderField: React.FC<{ label: string; value: string; children: React.ReactNode }> = ({ label, value, children }) => (
+  <div>
+    <div className="flex justify-between text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+      <span>{label}</span>
+      <span className="font-normal text-gray-500 dark:text-gray-400">{value}</span>
+    </div>
+    {children}
+  </div>
+);
+
+const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, currentPose, onGenerate, disabled = false }) => {
+  const [move, setMove] = useState<CameraPose>(ZERO_CAMERA_POSE);
+
+  // Every camera move starts from the view on screen.
+  useEffect(() => {
+    if (isOpen) setMove(ZERO_CAMERA_POSE);
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  const update = (changes: Partial<CameraPose>) => setMove(prev => ({ ...prev, ...changes }));
+  const resultingPose = addCameraPoses(currentPose, move);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={handleModalContentClick}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 dark:text-gray-400 hover:text-zinc-800 dark:hover:text-white transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center flex-shrink-0">
+          <h2 className="text-2xl font-extrabold mb-1 text-zinc-800 dark:text-gray-100">Move Camera</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Current view: {formatCameraPose(currentPose)}</p>
+        </div>
+
+        <div className="flex flex-col gap-5 overflow-y-auto pr-1">
+          <SliderField label="Orbit" value={move.yaw === 0 ? 'None' : `${Math.abs(move.yaw)}° ${move.yaw < 0 ? 'left' : 'right'}`}>
+            <input type="range" min={-180} max={180} step={15} value={move.yaw} onChange={(e) => update({ yaw: Number(e.target.value) })} className="w-full accent-gray-900 dark:accent-indigo-500" />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {YAW_PRESETS.map(yaw => (
+                <button key={yaw} onClick={() => update({ yaw })} className={presetClassName(move.yaw === yaw)}>
+                  {yaw === 180 ? 'Opposite side' : `${Math.abs(yaw)}° ${yaw < 0 ? 'left' : 'right'}`}
+                </button>
+              ))}
+            </div>
+          </SliderField>
+
+          <SliderField label="Camera Height" value={`${resultingPose.elevation}° from the original`}>
+            <input
+              type="range"
+              min={MIN_ELEVATION}
+              max={MAX_ELEVATION}
+              step={5}
+              value={currentPose.elevation + move.elevation}
+              onChange={(e) => update({ elevation: Number(e.target.value) - currentPose.elevation })}
+              className="w-full accent-gray-900 dark:accent-indigo-500"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {ELEVATION_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => update({ elevation: preset.elevation - currentPose.elevation })}
+                  className={presetClassName(resultingPose.elevation === preset.elevation)}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </SliderField>
+
+          <SliderField label="Dolly" value={move.dolly === 0 ? 'None' : `${Math.abs(move.dolly)}% ${move.dolly < 0 ? 'out' : 'in'}`}>
+            <input type="range" min={-50} max={50} step={10} value={move.dolly} onChange={(e) => update({ dolly: Number(e.target.value) })} className="w-full accent-gray-900 dark:accent-indigo-500" />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>Further away</span>
+              <span>Closer</span>
+            </div>
+          </SliderField>
+
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            New view: <strong>{formatCameraPose(resultingPose)}</strong> from the original photo.
+          </p>
+        </div>
+
+        <div className="mt-6 flex gap-3 justify-end flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(move)}
+            disabled={disabled || isZeroPose(move)}
+            className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            Generate View
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraModal;
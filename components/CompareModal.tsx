@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { computeDifferenceMap, renderHeatmap, DifferenceMap } from '../utils/imageCompare';
+
+// An image of the session that can be picked for comparison.
+export interface SessionImage {
+  id: string;
+  label: string;
+  file: File;
+}
+
+interface CompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: SessionImage[];
+  // The pair selected when the modal opens, as [before, after].
+  initialPair: [string, string] | null;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const SwapIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+    </svg>
+);
+
+const selectClassName = "w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition";
+
+const CompareModal: React.FC<CompareModalProps> = ({ isOpen, onClose, images, initialPair }) => {
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [opacity, setOpacity] = useState(0.6);
+  const [threshold, setThreshold] = useState(24);
+  const [differenceMap, setDifferenceMap] = useState<DifferenceMap | null>(null);
+  const [changedFraction, setChangedFraction] = useState<number | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [computeError, setComputeError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Start from the suggested pair every time the modal opens.
+  useEffect(() => {
+    if (isOpen) {
+      setBeforeId(initialPair?.[0] ?? images[0]?.id ?? null);
+      setAfterId(initialPair?.[1] ?? images[images.length - 1]?.id ?? null);
+    }
+  }, [isOpen]);
+
+  const before = images.find(image => image.id === beforeId) ?? null;
+  const after = images.find(image => image.id === afterId) ?? null;
+
+  const afterUrl = useMemo(() => after ? URL.createObjectURL(after.file) : null, [after?.file]);
+  useEffect(() => () => { if (afterUrl) URL.revokeObjectURL(afterUrl); }, [afterUrl]);
+
+  // Recompute the difference whenever the pair changes; threshold changes only re-render it.
+  useEffect(() => {
+    setDifferenceMap(null);
+    setChangedFraction(null);
+    setComputeError(null);
+    if (!isOpen || !before || !after) return;
+    let cancelled = false;
+    setIsComputing(true);
+    computeDifferenceMap(before.file, after.file)
+      .then(map => { if (!cancelled) setDifferenceMap(map); })
+      .catch(err => {
+        console.error("Could not compare images:", err);
+        if (!cancelled) setComputeError('These images could not be compared.');
+      })
+      .finally(() => { if (!cancelled) setIsComputing(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, before?.file, after?.file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !differenceMap) return;
+    const { image, changedFraction } = renderHeatmap(differenceMap, threshold);
+    canvas.width = differenceMap.width;
+    canvas.height = differenceMap.height;
+    ctx.putImageData(image, 0, 0);
+    setChangedFraction(changedFraction);
+  }, [differenceMap, threshold]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  const handleSwap = () => {
+    setBeforeId(afterId);
+    setAfterId(beforeId);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={handleModalContentClick}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 dark:text-gray-400 hover:text-zinc-800 dark:hover:text-white transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800 dark:text-gray-100">Compare Images</h2>
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-end gap-3 mb-4 flex-shrink-0">
+          <label className="flex-1 w-full text-sm font-semibold text-gray-700 dark:text-gray-300">
+            Before
+            <select value={beforeId ?? ''} onChange={(e) => setBeforeId(e.target.value)} className={`${selectClassName} mt-1 font-normal`}>
+              {images.map(image => <option key={image.id} value={image.id}>{image.label}</option>)}
+            </select>
+          </label>
+          <button onClick={handleSwap} className="p-2 mb-0.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition" aria-label="Swap images">
+            <SwapIcon />
+          </button>
+          <label className="flex-1 w-full text-sm font-semibold text-gray-700 dark:text-gray-300">
+            After
+            <select value={afterId ?? ''} onChange={(e) => setAfterId(e.target.value)} className={`${selectClassName} mt-1 font-normal`}>
+              {images.map(image => <option key={image.id} value={image.id}>{image.label}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="relative flex-grow min-h-0 rounded-lg overflow-hidden bg-zinc-100 dark:bg-gray-800 flex items-center justify-center" style={{ minHeight: '40vh' }}>
+          {afterUrl && <img src={afterUrl} alt={after?.label ?? 'After'} className="absolute inset-0 w-full h-full object-contain" />}
+          {/* The heatmap has the before image's aspect ratio, so object-contain lines it up with the after image. */}
+          <canvas
+            ref={canvasRef}
+            className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${differenceMap ? '' : 'hidden'}`}
+            style={{ opacity }}
+          />
+          {isComputing && <span className="relative bg-black/60 text-white text-sm font-semibold px-3 py-1 rounded-full">Comparing...</span>}
+          {computeError && <span className="relative bg-red-600/90 text-white text-sm font-semibold px-3 py-1 rounded-full">{computeError}</span>}
+        </div>
+
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-4 text-sm text-gray-600 dark:text-gray-300 flex-shrink-0">
+          <label className="flex items-center gap-3 flex-1">
+            <span className="w-28 flex-shrink-0">Overlay {Math.round(opacity * 100)}%</span>
+            <input type="range" min={0} max={1} step={0.05} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="w-full accent-gray-900 dark:accent-indigo-500" />
+          </label>
+          <label className="flex items-center gap-3 flex-1">
+            <span className="w-28 flex-shrink-0">Threshold {threshold}</span>
+            <input type="range" min={1} max={128} step={1} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className="w-full accent-gray-900 dark:accent-indigo-500" />
+          </label>
+          <p className="font-semibold text-gray-900 dark:text-gray-100 sm:w-48 sm:text-right">
+            {changedFraction !== null ? `${(changedFraction * 100).toFixed(1)}% of the frame changed` : ' '}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
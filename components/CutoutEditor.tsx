@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CutoutEdits, CutoutSource, createCutoutFile, findBackground, loadCutoutSource, paintCutoutEdits, renderCutout } from '../utils/cutout';
+import Spinner from './Spinner';
+
+interface CutoutEditorProps {
+  source: File;
+  onApply: (cutout: File) => void;
+  onCancel: () => void;
+}
+
+type BrushMode = 'erase' | 'restore';
+
+// A checkerboard behind the cutout, so transparent areas are easy to tell apart from white ones.
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)',
+  backgroundSize: '16px 16px',
+};
+
+const CutoutEditor: React.FC<CutoutEditorProps> = ({ source, onApply, onCancel }) => {
+  const [cutoutSource, setCutoutSource] = useState<CutoutSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tolerance, setTolerance] = useState(32);
+  const [feather, setFeather] = useState(1);
+  const [brushMode, setBrushMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(20);
+  const [isSaving, setIsSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const editsRef = useRef<CutoutEdits>(new Int8Array(0));
+  const strokeRef = useRef<{ pointerId: number; lastX: number; lastY: number } | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setCutoutSource(null);
+    setError(null);
+    loadCutoutSource(source)
+      .then(loaded => {
+        if (isCancelled) return;
+        editsRef.current = new Int8Array(loaded.width * loaded.height);
+        setCutoutSource(loaded);
+      })
+      .catch(err => {
+        console.error('Could not load the product photo for background removal:', err);
+        if (!isCancelled) setError('This photo could not be opened for background removal.');
+      });
+    return () => { isCancelled = true; };
+  }, [source]);
+
+  const background = useMemo(() => cutoutSource ? findBackground(cutoutSource, tolerance) : null, [cutoutSource, tolerance]);
+
+  const redraw = useCallback(() => {
+    if (canvasRef.current && cutoutSource && background) {
+      renderCutout(canvasRef.current, cutoutSource, background, editsRef.current, feather);
+    }
+  }, [cutoutSource, background, feather]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw]);
+
+  // Helper to map a pointer position to cutout pixels
+  const toCutoutPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const paint = (fromX: number, fromY: number, toX: number, toY: number) => {
+    if (!cutoutSource) return;
+    const radius = brushSize / 2;
+    const value = brushMode === 'restore' ? 1 : -1;
+    // Stamp along the segment so fast strokes don't leave gaps.
+    const steps = Math.max(1, Math.ceil(Math.hypot(toX - fromX, toY - fromY) / (radius / 2)));
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      paintCutoutEdits(editsRef.current, cutoutSource.width, cutoutSource.height, fromX + (toX - fromX) * t, fromY + (toY - fromY) * t, radius, value);
+    }
+    redraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toCutoutPoint(e);
+    strokeRef.current = { pointerId: e.pointerId, lastX: x, lastY: y };
+    paint(x, y, x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pointerId !== e.pointerId) return;
+    const { x, y } = toCutoutPoint(e);
+    paint(stroke.lastX, stroke.lastY, x, y);
+    stroke.lastX = x;
+    stroke.lastY = y;
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
+
+  const handleResetEdits = () => {
+    editsRef.current.fill(0);
+    redraw();
+  };
+
+  const handleApply = async () => {
+    if (!canvasRef.current) return;
+    setIsSaving(true);
+    try {
+      onApply(await createCutoutFile(canvasRef.current, `${source.name.replace(/\.[^.]+$/, '')}-cutout`));
+    } catch (err) {
+      console.error('Could not save the cutout:', err);
+      setError('The cutout could not be saved. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  const labelClassName = "flex items-center justify-between text-sm font-semibold text-gray-700 dark:text-gray-300";
+  const modeButtonClassName = (mode: BrushMode) => `px-3 py-1.5 font-semibold transition ${brushMode === mode ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="w-full aspect-square rounded-xl overflow-hidden border border-gray-300 dark:border-gray-600 flex items-center justify-center" style={CHECKERBOARD_STYLE}>
+        {error ? (
+          <p className="text-sm text-red-600 p-4 text-center">{error}</p>
+        ) : !cutoutSource ? (
+          <Spinner />
+        ) : (
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-full touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The background is found by its colour at the edges of the photo. Paint with Erase to remove leftover shadows, or with Restore to bring back parts of the product.
+      </p>
+
+      <label className={labelClassName}>
+        <span>Background Tolerance</span>
+        <input type="range" min={0} max={120} value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} className="w-1/2" />
+      </label>
+      <label className={labelClassName}>
+        <span>Edge Softness</span>
+        <input type="range" min={0} max={6} step={0.5} value={feather} onChange={(e) => setFeather(Number(e.target.value))} className="w-1/2" />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+          <button onClick={() => setBrushMode('erase')} className={modeButtonClassName('erase')}>Erase</button>
+          <button onClick={() => setBrushMode('restore')} className={modeButtonClassName('restore')}>Restore</button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Brush</span>
+          <input type="range" min={4} max={80} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+        </label>
+        <button onClick={handleResetEdits} className="text-sm text-gray-600 dark:text-gray-400 underline hover:text-gray-900 dark:hover:text-gray-100 transition">
+          Clear Brush Edits
+        </button>
+      </div>
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!cutoutSource || isSaving}
+          className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          Use Cutout
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutEditor;
@@ -4,15 +4,66 @@
 */
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { EditMask } from '../types';
+import { createBinaryMask } from '../utils/maskUtils';
 
 interface DrawingModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (dataUrl: string) => void;
+  // Called with null when the user saves without marking anything.
+  onSave: (mask: EditMask | null) => void;
   backgroundImageUrl: string;
+  // A previously saved mask, loaded so the user can refine it.
+  initialMask?: File | null;
+  // 'edit' marks the area that may change; 'protect' marks areas locked against any change.
+  mode?: DrawingMode;
 }
 
-const colors = ['#EF4444', '#F97316', '#10B981', '#3B82F6', '#6366F1', '#EC4899', '#333333', '#FFFFFF'];
+export type DrawingMode = 'edit' | 'protect';
+
+// Colour of the protect brush, also used for the locked-area overlay on the main image.
+export const PROTECT_COLOR = '#3B82F6';
+
+const modeConfig: Record<DrawingMode, { color: string; title: string; hint: string; saveLabel: string }> = {
+  edit: {
+    color: '#EF4444',
+    title: 'Mark the Area to Edit',
+    hint: 'Paint over what should change. Everything else is kept exactly as it is.',
+    saveLabel: 'Save Area',
+  },
+  protect: {
+    color: PROTECT_COLOR,
+    title: 'Lock Areas',
+    hint: 'Paint over what must never change. Locks are drawn on the original photo and kept in every edit made from its view.',
+    saveLabel: 'Save Locked Areas',
+  },
+};
+
+// Strokes are painted opaque on their own layer and shown semi-transparent, so overlapping strokes look uniform.
+const MASK_DISPLAY_OPACITY = 0.5;
+
+// Helper to render the image with the marked area tinted, for display outside the editor
+const createMaskPreview = (img: HTMLImageElement, strokes: HTMLCanvasElement): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return reject(new Error('Could not get canvas context for the mask preview.'));
+    }
+    ctx.drawImage(img, 0, 0);
+    ctx.globalAlpha = MASK_DISPLAY_OPACITY;
+    ctx.drawImage(strokes, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(new File([blob], `mask-preview-${Date.now()}.jpeg`, { type: 'image/jpeg' }));
+      } else {
+        reject(new Error('Canvas to Blob conversion failed.'));
+      }
+    }, 'image/jpeg', 0.9);
+  });
+};
 
 const CloseIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -26,16 +77,20 @@ const UndoIcon = () => (
     </svg>
 );
 
-const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, backgroundImageUrl }) => {
+const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, backgroundImageUrl, initialMask, mode = 'edit' }) => {
+  const { color: maskColor, title, hint, saveLabel } = modeConfig[mode];
+  // The image is drawn on one canvas and the mask strokes on a transparent canvas stacked above it.
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
   const history = useRef<ImageData[]>([]);
   const historyIndex = useRef<number>(-1);
 
   const [isDrawing, setIsDrawing] = useState(false);
-  const [color, setColor] = useState(colors[0]);
-  const [brushSize, setBrushSize] = useState(10);
+  const [brushSize, setBrushSize] = useState(30);
   const [isErasing, setIsErasing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
 
   const saveToHistory = useCallback(() => {
     if (contextRef.current && canvasRef.current) {
@@ -53,18 +108,53 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
     }
   }, []);
   
+  // Paints the white area of a saved mask back onto the stroke layer.
+  const loadInitialMask = useCallback((context: CanvasRenderingContext2D, onDone: () => void) => {
+    if (!initialMask) return onDone();
+    const url = URL.createObjectURL(initialMask);
+    const maskImg = new Image();
+    maskImg.onload = () => {
+      URL.revokeObjectURL(url);
+      const { width, height } = context.canvas;
+      context.drawImage(maskImg, 0, 0, width, height);
+      const imageData = context.getImageData(0, 0, width, height);
+      const { data } = imageData;
+      const r = parseInt(maskColor.slice(1, 3), 16);
+      const g = parseInt(maskColor.slice(3, 5), 16);
+      const b = parseInt(maskColor.slice(5, 7), 16);
+      for (let i = 0; i < data.length; i += 4) {
+        const isMarked = data[i] > 127;
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+        data[i + 3] = isMarked ? 255 : 0;
+      }
+      context.putImageData(imageData, 0, 0);
+      onDone();
+    };
+    maskImg.onerror = () => {
+      URL.revokeObjectURL(url);
+      console.error('Could not load the saved mask.');
+      onDone();
+    };
+    maskImg.src = url;
+  }, [initialMask, maskColor]);
+
   const initializeCanvas = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const imageCanvas = imageCanvasRef.current;
+    if (!canvas || !imageCanvas) return;
 
     const context = canvas.getContext('2d', { willReadFrequently: true });
-    if (!context) return;
+    const imageContext = imageCanvas.getContext('2d');
+    if (!context || !imageContext) return;
     contextRef.current = context;
 
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.src = backgroundImageUrl;
     img.onload = () => {
+      imageRef.current = img;
       const container = canvas.parentElement!;
       const { width, height } = container.getBoundingClientRect();
       const aspectRatio = img.naturalWidth / img.naturalHeight;
@@ -77,18 +167,20 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
         canvasWidth = height * aspectRatio;
       }
 
-      canvas.width = canvasWidth;
-      canvas.height = canvasHeight;
+      canvas.width = imageCanvas.width = canvasWidth;
+      canvas.height = imageCanvas.height = canvasHeight;
       
+      imageContext.drawImage(img, 0, 0, canvas.width, canvas.height);
       context.clearRect(0, 0, canvas.width, canvas.height);
-      context.drawImage(img, 0, 0, canvas.width, canvas.height);
       
-      // Reset history
-      history.current = [];
-      historyIndex.current = -1;
-      saveToHistory(); // Save initial state
+      loadInitialMask(context, () => {
+        // Reset history
+        history.current = [];
+        historyIndex.current = -1;
+        saveToHistory(); // Save initial state
+      });
     };
-  }, [backgroundImageUrl, saveToHistory]);
+  }, [backgroundImageUrl, saveToHistory, loadInitialMask]);
 
   useEffect(() => {
     if (isOpen) {
@@ -124,7 +216,7 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
     context.beginPath();
     context.moveTo(x, y);
     context.lineWidth = brushSize;
-    context.strokeStyle = color;
+    context.strokeStyle = maskColor;
     context.lineCap = 'round';
     context.lineJoin = 'round';
     context.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
@@ -154,13 +246,25 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
   };
   
   const handleClear = () => {
-    historyIndex.current = 0;
-    restoreFromHistory();
+    if (contextRef.current && canvasRef.current) {
+      contextRef.current.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+      saveToHistory();
+    }
   };
   
-  const handleSave = () => {
-    if (canvasRef.current) {
-        onSave(canvasRef.current.toDataURL('image/png'));
+  const handleSave = async () => {
+    const img = imageRef.current;
+    const strokes = canvasRef.current;
+    if (!img || !strokes) return;
+    setIsSaving(true);
+    try {
+        // The mask is exported at the image's full resolution, not the on-screen canvas size.
+        const mask = await createBinaryMask(strokes, img.naturalWidth, img.naturalHeight);
+        onSave(mask ? { mask, preview: await createMaskPreview(img, strokes) } : null);
+    } catch (err) {
+        console.error("Could not create the mask:", err);
+    } finally {
+        setIsSaving(false);
     }
   };
 
@@ -178,14 +282,14 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
           <button onClick={handleUndo} className="text-gray-600 dark:text-gray-300 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50" disabled={historyIndex.current <= 0} aria-label="Undo">
             <UndoIcon />
           </button>
-          <button onClick={handleClear} className="text-gray-600 dark:text-gray-300 font-semibold p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-sm" aria-label="Clear sketch">
+          <button onClick={handleClear} className="text-gray-600 dark:text-gray-300 font-semibold p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-sm" aria-label="Clear marked area">
             Clear
           </button>
         </div>
-        <div className="text-lg text-gray-900 dark:text-gray-100 font-bold">Sketch Your Vision</div>
+        <div className="text-lg text-gray-900 dark:text-gray-100 font-bold">{title}</div>
         <div className="flex items-center gap-4">
-            <button onClick={handleSave} className="bg-gray-900 hover:bg-gray-800 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm">
-                Save Sketch
+            <button onClick={handleSave} disabled={isSaving} className="bg-gray-900 hover:bg-gray-800 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-50">
+                {saveLabel}
             </button>
             <button onClick={onClose} className="text-gray-500 dark:text-gray-400 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors" aria-label="Close drawing mode">
                 <CloseIcon />
@@ -195,31 +299,32 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
       
       {/* Canvas Area */}
       <div className="w-full max-w-7xl h-full flex-grow bg-gray-100 dark:bg-gray-900 flex items-center justify-center overflow-hidden">
-        <canvas
-          ref={canvasRef}
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={stopDrawing}
-          className="cursor-crosshair"
-        />
+        <div className="relative">
+          <canvas ref={imageCanvasRef} className="block" />
+          <canvas
+            ref={canvasRef}
+            onMouseDown={startDrawing}
+            onMouseMove={draw}
+            onMouseUp={stopDrawing}
+            onMouseLeave={stopDrawing}
+            onTouchStart={startDrawing}
+            onTouchMove={draw}
+            onTouchEnd={stopDrawing}
+            className="absolute inset-0 cursor-crosshair"
+            style={{ opacity: MASK_DISPLAY_OPACITY }}
+          />
+        </div>
       </div>
 
       {/* Footer Tools */}
       <div className="w-full max-w-7xl flex flex-col sm:flex-row justify-between items-center gap-4 p-3 bg-white dark:bg-gray-800 rounded-b-lg border-t border-gray-200 dark:border-gray-700">
         <div className="flex items-center gap-3">
-          {colors.map(c => (
-            <button 
-              key={c}
-              onClick={() => { setColor(c); setIsErasing(false); }}
-              className={`w-8 h-8 rounded-full transition-transform transform hover:scale-110 ${color === c && !isErasing ? 'ring-2 ring-offset-2 ring-offset-white dark:ring-offset-gray-800 ring-gray-900 dark:ring-gray-200' : ''}`}
-              style={{ backgroundColor: c, border: c === '#FFFFFF' ? '1px solid #ccc' : 'none' }}
-              aria-label={`Select color ${c}`}
-            />
-          ))}
+          <button
+            onClick={() => setIsErasing(false)}
+            className={`w-8 h-8 rounded-full transition-transform transform hover:scale-110 ${!isErasing ? 'ring-2 ring-offset-2 ring-offset-white dark:ring-offset-gray-800 ring-gray-900 dark:ring-gray-200' : ''}`}
+            style={{ backgroundColor: maskColor }}
+            aria-label="Brush tool"
+          />
           <button
             onClick={() => setIsErasing(true)}
             className={`w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center text-gray-800 dark:text-gray-200 transition-transform transform hover:scale-110 ${isErasing ? 'ring-2 ring-offset-2 ring-offset-white dark:ring-offset-gray-800 ring-gray-900 dark:ring-gray-200' : ''}`}
@@ -227,6 +332,7 @@ const DrawingModal: React.FC<DrawingModalProps> = ({ isOpen, onClose, onSave, ba
           >
            E
           </button>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{hint}</p>
         </div>
         <div className="flex items-center gap-3 text-gray-600 dark:text-gray-300">
           <span>Brush Size</span>
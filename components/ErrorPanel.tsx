@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GenerationError, GenerationErrorKind } from '../services/generationErrors';
+
+interface ErrorPanelProps {
+  message: string;
+  cause?: GenerationError | null;
+  onDismiss: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const guidance: Record<GenerationErrorKind, { title: string; advice: string } | null> = {
+  'prompt-blocked': {
+    title: 'Request blocked',
+    advice: 'Rephrase your prompt to describe the design change in neutral terms, and check that the product or background images do not show people or sensitive content.',
+  },
+  'output-blocked': {
+    title: 'Result withheld',
+    advice: 'The model generated an image but did not return it. Rephrase your prompt or make a smaller, more specific change and try again.',
+  },
+  'incomplete': {
+    title: 'Generation stopped early',
+    advice: 'This is usually temporary. Try again, and if it keeps happening, shorten or simplify your prompt.',
+  },
+  'text-only': {
+    title: 'No image returned',
+    advice: 'The model answered in words instead of editing the image. Describe a concrete visual change, e.g. "add a red front door", rather than asking a question.',
+  },
+  'no-image': {
+    title: 'No image returned',
+    advice: 'Try again. If the problem persists, try a different prompt or image.',
+  },
+  'quota': {
+    title: 'Usage limit reached',
+    advice: 'Wait a minute before trying again. If this keeps happening, check the quota and billing for your API key.',
+  },
+  'invalid-key': {
+    title: 'API key problem',
+    advice: 'Open Settings from the gear icon and check that the API key is valid and has access to the selected model.',
+  },
+  'timeout': {
+    title: 'Request timed out',
+    advice: 'The service may be busy. Try again in a moment.',
+  },
+  'network': {
+    title: 'Connection problem',
+    advice: 'Check your internet connection and try again.',
+  },
+  'server': {
+    title: 'Service unavailable',
+    advice: 'The image service is having problems. Wait a few minutes and try again.',
+  },
+  'unknown': null,
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ message, cause, onDismiss }) => {
+  const help = cause ? guidance[cause.kind] : null;
+
+  return (
+    <div className="relative w-full p-4 pr-10 bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-700 text-red-800 dark:text-red-200 rounded-lg animate-fade-in" role="alert">
+      <button
+        onClick={onDismiss}
+        className="absolute top-3 right-3 text-red-600 dark:text-red-300 hover:text-red-900 dark:hover:text-red-100 transition-colors"
+        aria-label="Dismiss error"
+      >
+        <CloseIcon />
+      </button>
+      {help ? (
+        <>
+          <p className="font-bold">{help.title}</p>
+          <p className="mt-1">{message}</p>
+          <p className="mt-2 text-sm"><strong>What to do:</strong> {help.advice}</p>
+          {cause?.detail && (
+            <details className="mt-2 text-sm">
+              <summary className="cursor-pointer font-semibold">{cause.kind === 'text-only' ? "Model's reply" : 'Details'}</summary>
+              <p className="mt-1 whitespace-pre-wrap break-words">{cause.detail}</p>
+            </details>
+          )}
+        </>
+      ) : (
+        <p><strong>Error:</strong> {message}</p>
+      )}
+    </div>
+  );
+};
+
+export default ErrorPanel;
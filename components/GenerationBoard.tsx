@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GenerationNode } from '../types';
+import { formatCameraPose, getCameraMove } from '../utils/cameraPose';
+
+interface GenerationBoardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodes: GenerationNode[];
+  // Generations shown when the board opens.
+  initialSelectedIds: string[];
+}
+
+export const MIN_BOARD_ITEMS = 2;
+export const MAX_BOARD_ITEMS = 9;
+const MAX_ZOOM = 8;
+
+// Zoom and pan shared by every tile, in pixels of the (equally sized) tiles.
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+// Helper to keep the zoomed image covering its tile
+const clampTransform = ({ scale, x, y }: ViewTransform, width: number, height: number): ViewTransform => ({
+  scale,
+  x: Math.min(0, Math.max(width * (1 - scale), x)),
+  y: Math.min(0, Math.max(height * (1 - scale), y)),
+});
+
+// Helper to describe a generation in one line
+const describeNode = (node: GenerationNode): string => {
+  const metadata = node.metadata;
+  if (metadata?.operation === 'rotate') return `Camera: ${formatCameraPose(getCameraMove(metadata.inputs))}`;
+  return metadata?.inputs.userPrompt || 'Generation';
+};
+
+const GenerationBoard: React.FC<GenerationBoardProps> = ({ isOpen, onClose, nodes, initialSelectedIds }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; lastX: number; lastY: number } | null>(null);
+
+  // Start from the suggested selection and an unzoomed view every time the board opens.
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(initialSelectedIds.slice(0, MAX_BOARD_ITEMS));
+      setView(IDENTITY);
+    }
+  }, [isOpen]);
+
+  const orderedNodes = useMemo(() => [...nodes].sort((a, b) => a.createdAt - b.createdAt), [nodes]);
+  const imageUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    if (isOpen) orderedNodes.forEach(node => { urls[node.id] = URL.createObjectURL(node.file); });
+    return urls;
+  }, [orderedNodes, isOpen]);
+  useEffect(() => () => Object.keys(imageUrls).forEach(id => URL.revokeObjectURL(imageUrls[id])), [imageUrls]);
+
+  // Wheel zoom is attached natively because React's wheel listener is passive and cannot stop the page scrolling.
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const handleWheel = (e: WheelEvent) => {
+      const tile = (e.target as HTMLElement).closest('[data-board-tile]');
+      if (!tile) return;
+      e.preventDefault();
+      const rect = tile.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setView(prev => {
+        const scale = Math.min(MAX_ZOOM, Math.max(1, prev.scale * Math.exp(-e.deltaY * 0.0015)));
+        const ratio = scale / prev.scale;
+        // Keep the point under the cursor fixed while zooming.
+        return clampTransform({ scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio }, rect.width, rect.height);
+      });
+    };
+    grid.addEventListener('wheel', handleWheel, { passive: false });
+    return () => grid.removeEventListener('wheel', handleWheel);
+  }, [isOpen, selectedIds.length]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const selectedNodes = selectedIds
+    .map(id => orderedNodes.find(node => node.id === id))
+    .filter((node): node is GenerationNode => !!node);
+  const columns = selectedNodes.length <= 4 ? 2 : 3;
+
+  const toggleSelection = (nodeId: string) => {
+    setSelectedIds(prev => prev.includes(nodeId)
+      ? prev.filter(id => id !== nodeId)
+      : prev.length < MAX_BOARD_ITEMS ? [...prev, nodeId] : prev);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.scale === 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, lastX: e.clientX, lastY: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const dx = e.clientX - drag.lastX;
+    const dy = e.clientY - drag.lastY;
+    drag.lastX = e.clientX;
+    drag.lastY = e.clientY;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setView(prev => clampTransform({ ...prev, x: prev.x + dx, y: prev.y + dy }, rect.width, rect.height));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-950 z-50 flex flex-col animate-fade-in" aria-modal="true" role="dialog">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 bg-gray-900 border-b border-gray-800 flex-shrink-0">
+        <h2 className="text-lg font-bold text-gray-100">Design Options</h2>
+        <div className="flex items-center gap-3 text-sm text-gray-300">
+          <span>{view.scale > 1 ? `${Math.round(view.scale * 100)}%` : 'Scroll to zoom, drag to pan'}</span>
+          <button
+            onClick={() => setView(IDENTITY)}
+            disabled={view.scale === 1}
+            className="px-3 py-1.5 border border-gray-700 rounded-lg font-semibold hover:bg-gray-800 disabled:opacity-50 transition"
+          >
+            Reset Zoom
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white rounded-full hover:bg-gray-800 transition" aria-label="Close board">
+            <CloseIcon />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-grow min-h-0 p-4 overflow-auto">
+        {selectedNodes.length < MIN_BOARD_ITEMS ? (
+          <div className="h-full flex items-center justify-center text-gray-400">
+            Select at least {MIN_BOARD_ITEMS} generations below to compare them.
+          </div>
+        ) : (
+          <div ref={gridRef} className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {selectedNodes.map(node => (
+              <figure key={node.id} className="flex flex-col gap-2">
+                <div
+                  data-board-tile
+                  className={`relative aspect-video bg-gray-900 rounded-lg overflow-hidden touch-none ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  onDoubleClick={() => setView(IDENTITY)}
+                >
+                  <img
+                    src={imageUrls[node.id]}
+                    alt={describeNode(node)}
+                    className="absolute inset-0 w-full h-full object-contain origin-top-left select-none pointer-events-none"
+                    style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+                    draggable={false}
+                  />
+                </div>
+                <figcaption className="text-sm text-gray-200">
+                  <p className="font-semibold truncate" title={describeNode(node)}>{describeNode(node)}</p>
+                  <p className="text-xs text-gray-400">{new Date(node.createdAt).toLocaleString()}</p>
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-shrink-0 bg-gray-900 border-t border-gray-800 px-4 py-3">
+        <p className="text-xs text-gray-400 mb-2">Showing {selectedNodes.length} of up to {MAX_BOARD_ITEMS}. Click a thumbnail to add or remove it.</p>
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {orderedNodes.map((node, index) => {
+            const isSelected = selectedIds.includes(node.id);
+            const isDisabled = !isSelected && selectedIds.length >= MAX_BOARD_ITEMS;
+            return (
+              <button
+                key={node.id}
+                onClick={() => toggleSelection(node.id)}
+                disabled={isDisabled}
+                className={`relative flex-shrink-0 w-24 h-16 rounded-md overflow-hidden border-2 transition ${isSelected ? 'border-indigo-500' : 'border-transparent opacity-60 hover:opacity-100'} disabled:opacity-30 disabled:cursor-not-allowed`}
+                title={`${index + 1}. ${describeNode(node)}`}
+              >
+                <img src={imageUrls[node.id]} alt={`Generation ${index + 1}`} className="w-full h-full object-cover" />
+                <span className="absolute top-1 left-1 bg-black/60 text-white text-[10px] font-bold px-1.5 rounded-full">{index + 1}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationBoard;
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo } from 'react';
+import { GenerationNode, SceneBox } from '../types';
+import { isLikelyDrift } from '../utils/imageCompare';
+import { formatCameraPose, getCameraMove } from '../utils/cameraPose';
+import { formatDimensions, getBoxCentre, getPlacedProducts } from '../utils/products';
+
+interface GenerationDetailsProps {
+  node: GenerationNode | null;
+  onRerun: (nodeId: string) => void;
+  onRetryStricter: (nodeId: string) => void;
+  disabled?: boolean;
+}
+
+const RefreshIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><polyline points="23 4 23 10 17 10"></polyline><path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path></svg>
+);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-1.5 border-b border-gray-100 dark:border-gray-700/50 text-sm">
+    <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">{label}</span>
+    <span className="text-gray-800 dark:text-gray-200 text-right break-words min-w-0">{children}</span>
+  </div>
+);
+
+// Helper to describe the area a product was placed in, e.g. "in a 25% × 40% area centred 30% across, 60% down"
+const describeBox = (box: SceneBox): string => {
+  const centre = getBoxCentre(box);
+  const rotation = Math.round(box.rotation);
+  return `in a ${Math.round(box.width * 100)}% × ${Math.round(box.height * 100)}% area centred ${Math.round(centre.x * 100)}% across, ${Math.round(centre.y * 100)}% down${rotation ? `, turned ${rotation}°` : ''}`;
+};
+
+const GenerationDetails: React.FC<GenerationDetailsProps> = ({ node, onRerun, onRetryStricter, disabled = false }) => {
+  const metadata = node?.metadata;
+
+  const inputUrls = useMemo(() => {
+    if (!metadata) return [];
+    const { inputs } = metadata;
+    const entries: { label: string; url: string }[] = [{ label: 'Source', url: URL.createObjectURL(inputs.sourceImage) }];
+    if (inputs.mask) entries.push({ label: 'Edit Mask', url: URL.createObjectURL(inputs.mask) });
+    if (inputs.protectedMask) entries.push({ label: 'Locked Areas', url: URL.createObjectURL(inputs.protectedMask) });
+    getPlacedProducts(inputs).forEach(product => entries.push({ label: product.name, url: URL.createObjectURL(product.image) }));
+    if (inputs.backgroundImage) entries.push({ label: 'Background', url: URL.createObjectURL(inputs.backgroundImage) });
+    return entries;
+  }, [metadata]);
+
+  useEffect(() => {
+    return () => inputUrls.forEach(entry => URL.revokeObjectURL(entry.url));
+  }, [inputUrls]);
+
+  if (!node) return null;
+
+  return (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800/50 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">Generation Details</h2>
+        {metadata && (
+          <button
+            onClick={() => onRerun(node.id)}
+            disabled={disabled}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition flex items-center gap-2"
+          >
+            <RefreshIcon />
+            Re-run with Same Inputs
+          </button>
+        )}
+      </div>
+
+      {!metadata ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No details were recorded for this generation.</p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          <div>
+            <DetailRow label="Operation">{metadata.operation === 'rotate' ? `Camera move: ${formatCameraPose(getCameraMove(metadata.inputs))}` : 'Edit'}</DetailRow>
+            {metadata.cameraPose && <DetailRow label="Camera Pose">{formatCameraPose(metadata.cameraPose)} from the original photo</DetailRow>}
+            {metadata.inputs.userPrompt && <DetailRow label="Prompt">{metadata.inputs.userPrompt}</DetailRow>}
+            <DetailRow label="Edit Area">{metadata.inputs.mask ? 'Masked' : 'Whole image'}</DetailRow>
+            {getPlacedProducts(metadata.inputs).map((product, index) => (
+              <DetailRow key={product.id} label={`Product ${index + 1}`}>
+                {product.name}
+                {product.box ? `, ${describeBox(product.box)}` : product.point && `, placed ${Math.round(product.point.x * 100)}% across, ${Math.round(product.point.y * 100)}% down`}
+                {product.dimensions && `, ${formatDimensions(product.dimensions)}`}
+              </DetailRow>
+            ))}
+            {metadata.inputs.protectedMask && <DetailRow label="Locked Areas">Restored from source</DetailRow>}
+            {metadata.inputs.strict && <DetailRow label="Mode">Strict retry</DetailRow>}
+            {metadata.fidelityScore != null && (
+              <DetailRow label="Fidelity">
+                <span className={isLikelyDrift(metadata.fidelityScore) ? 'text-amber-600 dark:text-amber-400 font-semibold' : ''}>
+                  {Math.round(metadata.fidelityScore * 100)}%{isLikelyDrift(metadata.fidelityScore) && ' (the scene may have been redrawn)'}
+                </span>
+                {isLikelyDrift(metadata.fidelityScore) && metadata.operation === 'edit' && (
+                  <button
+                    onClick={() => onRetryStricter(node.id)}
+                    disabled={disabled}
+                    className="ml-3 text-amber-700 dark:text-amber-300 font-semibold hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Retry Stricter
+                  </button>
+                )}
+              </DetailRow>
+            )}
+            {(metadata.parameters?.seed ?? metadata.inputs.seed) != null && <DetailRow label="Seed">{metadata.parameters?.seed ?? metadata.inputs.seed}</DetailRow>}
+            <DetailRow label="Model">{metadata.model} ({metadata.provider})</DetailRow>
+            {metadata.parameters && (
+              <>
+                <DetailRow label="Working Resolution">{metadata.parameters.workingResolution}px{metadata.parameters.aspectRatio ? ` at ${metadata.parameters.aspectRatio}` : ''}</DetailRow>
+                <DetailRow label="Temperature">{metadata.parameters.temperature ?? 'Model default'}</DetailRow>
+              </>
+            )}
+            <DetailRow label="Started">{new Date(metadata.startedAt).toLocaleString()}</DetailRow>
+            <DetailRow label="Duration">{((metadata.completedAt - metadata.startedAt) / 1000).toFixed(1)}s</DetailRow>
+            <DetailRow label="Result">{metadata.resultSize.width} × {metadata.resultSize.height}, {formatBytes(metadata.resultSize.bytes)}</DetailRow>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider mb-2">Inputs</h3>
+            <div className="flex gap-3 flex-wrap">
+              {inputUrls.map(entry => (
+                <figure key={entry.url} className="w-28">
+                  <img src={entry.url} alt={entry.label} className="w-28 h-20 object-cover rounded-md bg-gray-200 dark:bg-gray-700" />
+                  <figcaption className="mt-1 text-xs text-center text-gray-500 dark:text-gray-400">{entry.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+
+          <details>
+            <summary className="text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer">Final Prompt</summary>
+            <pre className="mt-2 bg-zinc-100 dark:bg-black/50 text-zinc-700 dark:text-gray-300 p-4 rounded-lg text-xs whitespace-pre-wrap max-h-64 overflow-y-auto">
+              <code>{metadata.finalPrompt}</code>
+            </pre>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationDetails;
@@ -2,16 +2,19 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { DesignSession } from '../types';
+import React, { useRef } from 'react';
+import { SessionSummary } from '../types';
 
 interface HistorySidebarProps {
   isOpen: boolean;
-  sessions: DesignSession[];
+  sessions: SessionSummary[];
   activeSessionId: string | null;
+  loadingSessionId?: string | null;
   onSelectSession: (sessionId: string) => void;
   onNewSession: () => void;
   onDeleteSession: (sessionId: string) => void;
+  onExportSessions: (sessionIds: string[]) => void;
+  onImportBundle: (file: File) => void;
 }
 
 const PlusIcon = () => (
@@ -22,8 +25,26 @@ const TrashIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
 );
 
+const DownloadIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+);
+
+const UploadIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
+);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, sessions, activeSessionId, loadingSessionId, onSelectSession, onNewSession, onDeleteSession, onExportSessions, onImportBundle }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportBundle(file);
+    }
+    // Allow the same file to be picked again.
+    e.target.value = '';
+  };
 
-const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, sessions, activeSessionId, onSelectSession, onNewSession, onDeleteSession }) => {
   const timeAgo = (timestamp: number) => {
     const seconds = Math.floor((new Date().getTime() - timestamp) / 1000);
     let interval = seconds / 31536000;
@@ -55,6 +76,30 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, sessions, activ
           <PlusIcon />
           New Project
         </button>
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-semibold border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <UploadIcon />
+            Import
+          </button>
+          <button
+            onClick={() => onExportSessions(sessions.map(s => s.id))}
+            disabled={sessions.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-semibold border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <DownloadIcon />
+            Export All
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={handleImportChange}
+          />
+        </div>
       </div>
       <div className="flex-1 overflow-y-auto scrollbar-hide">
         {sessions.length === 0 ? (
@@ -67,13 +112,23 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, sessions, activ
                     <li key={session.id} className={`p-2 group ${activeSessionId === session.id ? 'bg-gray-100 dark:bg-gray-900/50' : ''}`}>
                         <div
                             onClick={() => onSelectSession(session.id)}
-                            className="flex items-center space-x-3 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50 cursor-pointer"
+                            className={`flex items-center space-x-3 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50 cursor-pointer ${loadingSessionId === session.id ? 'animate-pulse' : ''}`}
                         >
                             <img src={session.thumbnail} alt={session.name} className="w-16 h-12 object-cover rounded-md bg-gray-200 dark:bg-gray-700" />
                             <div className="flex-1 min-w-0">
                                 <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{session.name}</p>
-                                <p className="text-xs text-gray-500 dark:text-gray-400">{timeAgo(session.timestamp)}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{loadingSessionId === session.id ? 'Loading...' : timeAgo(session.timestamp)}</p>
                             </div>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onExportSessions([session.id]);
+                                }}
+                                className="p-2 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                                aria-label="Export project"
+                            >
+                                <DownloadIcon />
+                            </button>
                             <button
                                 onClick={(e) => {
                                     e.stopPropagation();
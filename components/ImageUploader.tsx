@@ -10,6 +10,8 @@ interface ImageUploaderProps {
   label?: string;
   onFileSelect: (file: File) => void;
   imageUrl: string | null;
+  // A transparent image with the same aspect ratio as the main image, drawn on top of it.
+  overlayUrl?: string | null;
   showDebugButton?: boolean;
   onDebugClick?: () => void;
   disabled?: boolean;
@@ -19,6 +21,8 @@ interface ImageUploaderProps {
   onProductDragOver?: (e: React.DragEvent) => void;
   onProductDragLeave?: (e: React.DragEvent) => void;
   onProductDrop?: (e: React.DragEvent) => void;
+  // Markers drawn over the image, positioned against the whole frame.
+  children?: React.ReactNode;
 }
 
 const UploadIcon: React.FC = () => (
@@ -34,7 +38,7 @@ const WarningIcon: React.FC = () => (
 );
 
 
-const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, showDebugButton, onDebugClick, disabled = false, aspectRatio = 'video', isProductDraggingOver, onProductDragOver, onProductDragLeave, onProductDrop }, ref) => {
+const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, overlayUrl, showDebugButton, onDebugClick, disabled = false, aspectRatio = 'video', isProductDraggingOver, onProductDragOver, onProductDragLeave, onProductDrop, children }, ref) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
@@ -68,22 +72,30 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     inputRef.current?.click();
   };
   
+  // Anything dragged in that isn't a file is a product from the catalog, handled by the parent.
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
-      if (disabled) return;
-      if (event.dataTransfer.types.includes('Files')) {
-        setIsDraggingOver(true);
+      if (!event.dataTransfer.types.includes('Files')) {
+        onProductDragOver?.(event);
+        return;
       }
-  }, [disabled]);
+      if (disabled) return;
+      setIsDraggingOver(true);
+  }, [disabled, onProductDragOver]);
 
   const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
       setIsDraggingOver(false);
-  }, []);
+      onProductDragLeave?.(event);
+  }, [onProductDragLeave]);
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
       setIsDraggingOver(false);
+      if (!event.dataTransfer.types.includes('Files')) {
+        onProductDrop?.(event);
+        return;
+      }
       if (disabled) return;
       
       const file = event.dataTransfer.files?.[0];
@@ -97,12 +109,13 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
               onFileSelect(file);
           }
       }
-  }, [onFileSelect, disabled]);
+  }, [onFileSelect, disabled, onProductDrop]);
   
   const isActionable = !disabled;
 
   const uploaderClasses = `w-full ${aspectRatio === 'square' ? 'aspect-square' : 'aspect-video'} bg-gray-100 dark:bg-gray-800 border-2 border-dashed rounded-xl flex items-center justify-center transition-all duration-300 relative overflow-hidden ${
       isDraggingOver ? 'border-gray-900 dark:border-gray-300 bg-gray-100 dark:bg-gray-700'
+    : isProductDraggingOver ? 'border-green-500 ring-4 ring-green-500/30'
     : 'border-gray-300 dark:border-gray-600'
   } ${isActionable ? 'hover:border-gray-400 dark:hover:border-gray-500 cursor-pointer' : ''} ${disabled && !imageUrl ? 'cursor-not-allowed opacity-70 dark:opacity-60' : ''}`;
 
@@ -134,6 +147,11 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
               alt={label || 'Uploaded Scene'} 
               className="w-full h-full object-contain" 
             />
+            {overlayUrl && (
+              // object-contain letterboxes both images identically, so the overlay lines up with the image.
+              <img src={overlayUrl} alt="" className="absolute inset-0 w-full h-full object-contain opacity-40 pointer-events-none" />
+            )}
+            {children}
           </>
         ) : (
           <div className="text-center text-gray-500 dark:text-gray-400 p-4">
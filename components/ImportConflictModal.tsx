@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ImportConflictResolution } from '../services/bundleService';
+
+interface ImportConflictModalProps {
+  isOpen: boolean;
+  conflictingNames: string[];
+  totalCount: number;
+  onResolve: (resolution: ImportConflictResolution) => void;
+  onClose: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const ImportConflictModal: React.FC<ImportConflictModalProps> = ({ isOpen, conflictingNames, totalCount, onResolve, onClose }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all"
+        onClick={handleModalContentClick}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 dark:text-gray-400 hover:text-zinc-800 dark:hover:text-white transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <h2 className="text-2xl font-extrabold text-zinc-800 dark:text-gray-100 mb-2">Projects Already Exist</h2>
+        <p className="text-zinc-600 dark:text-gray-400 mb-4">
+          {conflictingNames.length} of the {totalCount} project(s) in this bundle are already in your history:
+        </p>
+        <ul className="mb-6 max-h-40 overflow-y-auto text-sm text-gray-800 dark:text-gray-200 list-disc pl-5">
+          {conflictingNames.map((name, index) => <li key={index}>{name}</li>)}
+        </ul>
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={() => onResolve('keep-both')}
+            className="w-full px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 transition-colors"
+          >
+            Keep Both
+          </button>
+          <button
+            onClick={() => onResolve('replace')}
+            className="w-full px-4 py-2 border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 font-semibold rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+          >
+            Replace Existing
+          </button>
+          <button
+            onClick={() => onResolve('skip')}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            Skip Duplicates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportConflictModal;
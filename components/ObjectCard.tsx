@@ -3,8 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { Product } from '../types';
+import { formatDimensions } from '../utils/products';
 
 interface ObjectCardProps {
     product: Product;
@@ -13,31 +14,61 @@ interface ObjectCardProps {
     onTouchStart: (e: React.TouchEvent, product: Product) => void;
     onTouchMove: (e: React.TouchEvent) => void;
     onTouchEnd: (e: React.TouchEvent) => void;
+    onDelete?: (product: Product) => void;
 }
 
-const ObjectCard: React.FC<ObjectCardProps> = ({ product, onDragStart, onDragEnd, onTouchStart, onTouchMove, onTouchEnd }) => {
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, onDragStart, onDragEnd, onTouchStart, onTouchMove, onTouchEnd, onDelete }) => {
+    const imageUrl = useMemo(() => URL.createObjectURL(product.image), [product.image]);
+    useEffect(() => () => URL.revokeObjectURL(imageUrl), [imageUrl]);
+
     const cardClasses = `
         bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden transition-all duration-300
         cursor-grab active:cursor-grabbing hover:shadow-xl hover:scale-105
         border border-zinc-200 dark:border-gray-700
     `;
 
+    // The delete button sits beside the draggable card rather than inside it, so tapping it never starts a drag.
     return (
-        <div 
-            className={cardClasses}
-            draggable="true"
-            onDragStart={(e) => onDragStart(e, product)}
-            onDragEnd={onDragEnd}
-            onTouchStart={(e) => onTouchStart(e, product)}
-            onTouchMove={onTouchMove}
-            onTouchEnd={onTouchEnd}
-        >
-            <div className="aspect-square w-full bg-zinc-100 dark:bg-gray-700 flex items-center justify-center pointer-events-none">
-                <img src={product.imageUrl} alt={product.name} className="w-full h-full object-contain" />
-            </div>
-            <div className="p-3 text-center pointer-events-none">
-                <h4 className="text-sm font-semibold text-zinc-700 dark:text-gray-300 truncate">{product.name}</h4>
+        <div className="relative group">
+            <div
+                className={cardClasses}
+                draggable="true"
+                onDragStart={(e) => onDragStart(e, product)}
+                onDragEnd={onDragEnd}
+                onTouchStart={(e) => onTouchStart(e, product)}
+                onTouchMove={onTouchMove}
+                onTouchEnd={onTouchEnd}
+            >
+                <div className="aspect-square w-full bg-zinc-100 dark:bg-gray-700 flex items-center justify-center pointer-events-none">
+                    <img src={imageUrl} alt={product.name} className="w-full h-full object-contain" />
+                </div>
+                <div className="p-3 text-center">
+                    <h4 className="text-sm font-semibold text-zinc-700 dark:text-gray-300 truncate pointer-events-none" title={product.name}>{product.name}</h4>
+                    <p className="text-xs text-zinc-500 dark:text-gray-400 truncate pointer-events-none">
+                        {product.dimensions ? formatDimensions(product.dimensions) : product.tags.join(', ') || ' '}
+                    </p>
+                    {product.vendorUrl && (
+                        <a
+                            href={product.vendorUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            draggable={false}
+                            className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                        >
+                            View at vendor
+                        </a>
+                    )}
+                </div>
             </div>
+            {onDelete && (
+                <button
+                    onClick={() => onDelete(product)}
+                    className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/50 hover:bg-black/70 text-white text-sm leading-none opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Remove ${product.name} from the library`}
+                >
+                    &times;
+                </button>
+            )}
         </div>
     );
 };
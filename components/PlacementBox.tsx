@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { PlacedProduct, SceneBox } from '../types';
+import { GUIDE_COLORS } from '../utils/placementGuide';
+import { getBoxCentre } from '../utils/products';
+
+interface PlacementBoxProps {
+  product: PlacedProduct;
+  box: SceneBox;
+  index: number;
+  // Where the photo sits inside the parent element, as fractions of the parent; the box is relative to the photo.
+  frame: { x: number; y: number; width: number; height: number };
+  disabled?: boolean;
+  onChange: (box: SceneBox) => void;
+  onRemove: () => void;
+}
+
+type DragMode = 'move' | 'resize' | 'rotate';
+
+interface DragState {
+  mode: DragMode;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startBox: SceneBox;
+  // The photo's on-screen rectangle when the drag started.
+  content: { left: number; top: number; width: number; height: number };
+}
+
+// Smallest side of a box on screen, so the handles stay usable.
+const MIN_BOX_PIXELS = 16;
+// Rotations this close to upright snap to it.
+const ROTATION_SNAP_DEGREES = 3;
+
+// Helper to keep an angle between -180 and 180 degrees
+const normalizeAngle = (degrees: number) => ((degrees + 540) % 360) - 180;
+
+const PlacementBox: React.FC<PlacementBoxProps> = ({ product, box, index, frame, disabled = false, onChange, onRemove }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const imageUrl = useMemo(() => URL.createObjectURL(product.image), [product.image]);
+  useEffect(() => () => URL.revokeObjectURL(imageUrl), [imageUrl]);
+  const color = GUIDE_COLORS[index % GUIDE_COLORS.length];
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode) => {
+    const parent = rootRef.current?.parentElement;
+    if (disabled || !parent) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = parent.getBoundingClientRect();
+    dragRef.current = {
+      mode,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      startBox: box,
+      content: {
+        left: rect.left + frame.x * rect.width,
+        top: rect.top + frame.y * rect.height,
+        width: frame.width * rect.width,
+        height: frame.height * rect.height,
+      },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const { startBox, content } = drag;
+    if (drag.mode === 'move') {
+      // Keep the whole box on the photo, since the model can't place anything outside it.
+      const x = startBox.x + (e.clientX - drag.startX) / content.width;
+      const y = startBox.y + (e.clientY - drag.startY) / content.height;
+      onChange({
+        ...startBox,
+        x: Math.min(1 - startBox.width, Math.max(0, x)),
+        y: Math.min(1 - startBox.height, Math.max(0, y)),
+      });
+      return;
+    }
+
+    const centreX = content.left + (startBox.x + startBox.width / 2) * content.width;
+    const centreY = content.top + (startBox.y + startBox.height / 2) * content.height;
+    const dx = e.clientX - centreX;
+    const dy = e.clientY - centreY;
+    if (drag.mode === 'rotate') {
+      // The handle sits above the box, so pointing straight up means upright.
+      const rotation = normalizeAngle(Math.atan2(dy, dx) * 180 / Math.PI + 90);
+      onChange({ ...startBox, rotation: Math.abs(rotation) < ROTATION_SNAP_DEGREES ? 0 : rotation });
+      return;
+    }
+
+    // Resize around the centre, measuring the pointer along the box's own axes so rotated boxes resize naturally,
+    // and stop at the nearest edge of the photo.
+    const angle = startBox.rotation * Math.PI / 180;
+    const halfWidth = Math.max(MIN_BOX_PIXELS / 2, Math.abs(dx * Math.cos(angle) + dy * Math.sin(angle)));
+    const halfHeight = Math.max(MIN_BOX_PIXELS / 2, Math.abs(-dx * Math.sin(angle) + dy * Math.cos(angle)));
+    const centre = getBoxCentre(startBox);
+    const width = Math.min((2 * halfWidth) / content.width, 2 * Math.min(centre.x, 1 - centre.x));
+    const height = Math.min((2 * halfHeight) / content.height, 2 * Math.min(centre.y, 1 - centre.y));
+    onChange({
+      ...startBox,
+      x: startBox.x + (startBox.width - width) / 2,
+      y: startBox.y + (startBox.height - height) / 2,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleClasses = 'absolute w-4 h-4 rounded-full bg-white border-2 shadow touch-none';
+
+  return (
+    <div
+      ref={rootRef}
+      className={`absolute touch-none ${disabled ? 'pointer-events-none' : 'cursor-move'}`}
+      style={{
+        left: `${(frame.x + box.x * frame.width) * 100}%`,
+        top: `${(frame.y + box.y * frame.height) * 100}%`,
+        width: `${box.width * frame.width * 100}%`,
+        height: `${box.height * frame.height * 100}%`,
+        transform: `rotate(${box.rotation}deg)`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => startDrag(e, 'move')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      title="Drag to move, use the handles to resize and rotate"
+    >
+      <img src={imageUrl} alt="" draggable={false} className="w-full h-full object-contain opacity-60 pointer-events-none" />
+      <div className="absolute inset-0 border-2 pointer-events-none" style={{ borderColor: color }} />
+      <div
+        className="absolute left-0 top-full mt-3 max-w-[12rem] text-white text-xs font-bold pl-2 pr-1 py-0.5 rounded-full flex items-center gap-1 shadow-lg"
+        style={{ backgroundColor: color }}
+      >
+        <span className="truncate">{index + 1} · {product.name}</span>
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={onRemove}
+          className="font-bold text-base leading-none px-1 hover:opacity-75 transition"
+          aria-label={`Remove ${product.name}`}
+        >
+          &times;
+        </button>
+      </div>
+      <div className="absolute left-1/2 -top-5 h-5 border-l-2 pointer-events-none" style={{ borderColor: color }} />
+      <div
+        className={`${handleClasses} left-1/2 -top-7 -translate-x-1/2 cursor-grab`}
+        style={{ borderColor: color }}
+        onPointerDown={(e) => startDrag(e, 'rotate')}
+        aria-label="Rotate"
+      />
+      <div
+        className={`${handleClasses} -right-2 -bottom-2 cursor-nwse-resize`}
+        style={{ borderColor: color }}
+        onPointerDown={(e) => startDrag(e, 'resize')}
+        aria-label="Resize"
+      />
+    </div>
+  );
+};
+
+export default PlacementBox;
@@ -4,8 +4,9 @@
 */
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { Product } from '../types';
+import { Product, ProductCategory } from '../types';
 import ObjectCard from './ObjectCard';
+import { PRODUCT_CATEGORIES, matchesProductQuery } from '../utils/products';
 
 interface ProductSelectorProps {
     products: Product[];
@@ -15,6 +16,7 @@ interface ProductSelectorProps {
     onProductTouchStart: (e: React.TouchEvent, product: Product) => void;
     onProductTouchMove: (e: React.TouchEvent) => void;
     onProductTouchEnd: (e: React.TouchEvent) => void;
+    onDeleteProduct?: (product: Product) => void;
 }
 
 const ArrowLeftIcon = () => (
@@ -29,10 +31,15 @@ const ArrowRightIcon = () => (
     </svg>
 );
 
-const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnProductClick, onProductDragStart, onProductDragEnd, onProductTouchStart, onProductTouchMove, onProductTouchEnd }) => {
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnProductClick, onProductDragStart, onProductDragEnd, onProductTouchStart, onProductTouchMove, onProductTouchEnd, onDeleteProduct }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const [canScrollLeft, setCanScrollLeft] = useState(false);
     const [canScrollRight, setCanScrollRight] = useState(true);
+    const [query, setQuery] = useState('');
+    const [category, setCategory] = useState<ProductCategory | null>(null);
+
+    const visibleProducts = products.filter(product =>
+        (!category || product.category === category) && matchesProductQuery(product, query));
 
     const checkScrollButtons = useCallback(() => {
         const el = scrollContainerRef.current;
@@ -62,7 +69,7 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnPro
             el.removeEventListener('scroll', checkScrollButtons);
             window.removeEventListener('resize', checkScrollButtons);
         };
-    }, [products, checkScrollButtons]);
+    }, [visibleProducts.length, checkScrollButtons]);
 
     const scroll = (direction: 'left' | 'right') => {
         if (scrollContainerRef.current) {
@@ -76,7 +83,35 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnPro
 
     return (
         <div className="w-full max-w-6xl mx-auto text-center animate-fade-in">
-             <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Add Products to Your Scene</h2>
+             <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-1">Add Products to Your Scene</h2>
+             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Drag a product onto the scene, then move, resize and rotate its box to set where it goes and how big it is.</p>
+            {products.length > 0 && (
+                <div className="flex flex-col sm:flex-row items-center justify-center gap-3 mb-2">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search by name or tag"
+                        aria-label="Search products"
+                        className="w-full sm:w-64 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition"
+                    />
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {[{ id: null, label: 'All' }, ...PRODUCT_CATEGORIES].map(option => (
+                            <button
+                                key={option.label}
+                                onClick={() => setCategory(option.id)}
+                                className={`px-3 py-1 text-xs font-semibold rounded-full border transition ${
+                                    category === option.id
+                                        ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 border-transparent'
+                                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
             <div className="relative flex items-center">
                 <button 
                     onClick={() => scroll('left')}
@@ -90,7 +125,12 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnPro
                     ref={scrollContainerRef}
                     className="flex space-x-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
                 >
-                    {products.map(product => (
+                    {visibleProducts.length === 0 && (
+                        <p className="w-full py-8 text-sm text-gray-500 dark:text-gray-400">
+                            {products.length === 0 ? 'Your product library is empty. Products you add are saved here for every project.' : 'No products match your search.'}
+                        </p>
+                    )}
+                    {visibleProducts.map(product => (
                          <div key={product.id} className="snap-center shrink-0 w-40 md:w-48">
                             <ObjectCard
                                 product={product}
@@ -99,6 +139,7 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onAddOwnPro
                                 onTouchStart={onProductTouchStart}
                                 onTouchMove={onProductTouchMove}
                                 onTouchEnd={onProductTouchEnd}
+                                onDelete={onDeleteProduct}
                             />
                         </div>
                     ))}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { AppSettings, DEFAULT_SETTINGS, MODEL_SUGGESTIONS, WORKING_RESOLUTIONS, getSettings, saveSettings } from '../services/settingsService';
+import { MAX_OUTPUT_PIXELS } from '../utils/upscale';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: AppSettings) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const inputClassName = "w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition disabled:opacity-50";
+
+const Field: React.FC<{ label: string; hint?: string; htmlFor: string; children: React.ReactNode }> = ({ label, hint, htmlFor, children }) => (
+  <div>
+    <label htmlFor={htmlFor} className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+    {children}
+    {hint && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{hint}</p>}
+  </div>
+);
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<AppSettings>(getSettings);
+  const [showKey, setShowKey] = useState(false);
+
+  // Start from the saved settings every time the panel opens, discarding unsaved edits.
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(getSettings());
+      setShowKey(false);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  const update = (changes: Partial<AppSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    onSave(saveSettings(draft));
+  };
+
+  const hasBuildKey = !!process.env.API_KEY;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={handleModalContentClick}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 dark:text-gray-400 hover:text-zinc-800 dark:hover:text-white transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center flex-shrink-0">
+          <h2 className="text-2xl font-extrabold mb-4 text-zinc-800 dark:text-gray-100">Settings</h2>
+        </div>
+
+        <div className="flex flex-col gap-4 overflow-y-auto pr-1">
+          <Field
+            label="Gemini API Key"
+            htmlFor="settings-api-key"
+            hint={`Stored only in this browser's local storage.${hasBuildKey ? ' Leave empty to use the key configured for this build.' : ' Without a key the offline mock provider is used.'}`}
+          >
+            <div className="flex gap-2">
+              <input
+                id="settings-api-key"
+                type={showKey ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder={hasBuildKey ? 'Using build key' : 'Paste your API key'}
+                autoComplete="off"
+                className={inputClassName}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="px-3 py-2 text-sm font-semibold border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+          </Field>
+
+          <Field label="Model" htmlFor="settings-model" hint="Any image-capable Gemini model name.">
+            <input
+              id="settings-model"
+              type="text"
+              list="settings-model-suggestions"
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value })}
+              className={inputClassName}
+            />
+            <datalist id="settings-model-suggestions">
+              {MODEL_SUGGESTIONS.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </Field>
+
+          <Field label="Working Resolution" htmlFor="settings-resolution" hint="Longest side of images sent to the model. Larger sizes keep more detail but are slower.">
+            <select
+              id="settings-resolution"
+              value={draft.workingResolution}
+              onChange={(e) => update({ workingResolution: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {WORKING_RESOLUTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </Field>
+
+          <Field label="Output Resolution" htmlFor="settings-preserve-resolution" hint={`Scale results back to the size of your photo (up to ${MAX_OUTPUT_PIXELS / 1_000_000} megapixels), restoring its fine detail wherever the design is unchanged. Otherwise results stay at the working resolution.`}>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                id="settings-preserve-resolution"
+                type="checkbox"
+                checked={draft.preserveResolution}
+                onChange={(e) => update({ preserveResolution: e.target.checked })}
+              />
+              Match the original photo
+            </label>
+          </Field>
+
+          <Field label={`Temperature${draft.temperature !== null ? `: ${draft.temperature.toFixed(1)}` : ''}`} htmlFor="settings-temperature" hint="Lower values follow the prompt more literally; higher values are more creative.">
+            <label className="flex items-center gap-2 mb-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.temperature === null}
+                onChange={(e) => update({ temperature: e.target.checked ? null : 1 })}
+              />
+              Use model default
+            </label>
+            <input
+              id="settings-temperature"
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature ?? 1}
+              disabled={draft.temperature === null}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="w-full disabled:opacity-50"
+            />
+          </Field>
+
+          <Field label="Seed" htmlFor="settings-seed" hint="Set a fixed seed to make results repeatable. Leave empty for a different result each time. Variations always use their own seeds.">
+            <input
+              id="settings-seed"
+              type="number"
+              step={1}
+              min={0}
+              value={draft.seed ?? ''}
+              onChange={(e) => update({ seed: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) })}
+              placeholder="Random"
+              className={inputClassName}
+            />
+          </Field>
+
+          <Field label="Request Timeout (seconds)" htmlFor="settings-timeout" hint="Attempts that take longer are abandoned and retried.">
+            <input
+              id="settings-timeout"
+              type="number"
+              min={10}
+              step={10}
+              value={draft.timeoutSeconds}
+              onChange={(e) => update({ timeoutSeconds: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </Field>
+        </div>
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-between flex-shrink-0">
+          <button
+            onClick={() => setDraft({ ...DEFAULT_SETTINGS, apiKey: draft.apiKey })}
+            className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Reset to Defaults
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 transition"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GenerationNode, TurntableSequence } from '../types';
+import { formatCameraPose, getCameraPose } from '../utils/cameraPose';
+import { exportSequenceAsGif, exportSequenceAsWebm, createContactSheet } from '../utils/sequenceExport';
+
+interface TurntablePanelProps {
+  sequences: TurntableSequence[];
+  nodes: GenerationNode[];
+  sceneImage: File;
+  onGenerate: (frameCount: number, stepYaw: number) => void;
+  onRegenerateFrame: (sequenceId: string, frameIndex: number) => void;
+  onDelete: (sequenceId: string) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+type ExportFormat = 'gif' | 'webm' | 'sheet';
+
+const MAX_TURNTABLE_FRAMES = 12;
+const FRAME_DELAY_OPTIONS = [250, 500, 1000];
+
+// Helper to save a generated file through a temporary link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const TurntablePanel: React.FC<TurntablePanelProps> = ({ sequences, nodes, sceneImage, onGenerate, onRegenerateFrame, onDelete, onClose, disabled = false }) => {
+  const [frameCount, setFrameCount] = useState(8);
+  const [stepYaw, setStepYaw] = useState(45);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [frameDelay, setFrameDelay] = useState(500);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playIndex, setPlayIndex] = useState(0);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Show the newest sequence unless another one was picked.
+  const sequence = sequences.find(s => s.id === selectedId) ?? sequences[sequences.length - 1] ?? null;
+
+  // The start image followed by every generated frame that still exists.
+  const frames = useMemo(() => {
+    if (!sequence) return [];
+    const start = sequence.startNodeId ? nodes.find(n => n.id === sequence.startNodeId) : null;
+    const startFrame = { id: sequence.startNodeId ?? 'original', file: start?.file ?? sceneImage, frameIndex: -1 };
+    const generated = sequence.frameIds
+      .map((id, frameIndex) => ({ node: nodes.find(n => n.id === id), frameIndex }))
+      .filter((frame): frame is { node: GenerationNode; frameIndex: number } => !!frame.node)
+      .map(({ node, frameIndex }) => ({ id: node.id, file: node.file, frameIndex }));
+    return [startFrame, ...generated];
+  }, [sequence, nodes, sceneImage]);
+
+  const frameUrls = useMemo(() => frames.map(frame => URL.createObjectURL(frame.file)), [frames]);
+  useEffect(() => () => frameUrls.forEach(url => URL.revokeObjectURL(url)), [frameUrls]);
+
+  useEffect(() => {
+    if (!isPlaying || frames.length < 2) return;
+    const interval = setInterval(() => setPlayIndex(i => (i + 1) % frames.length), frameDelay);
+    return () => clearInterval(interval);
+  }, [isPlaying, frames.length, frameDelay]);
+
+  const labelFor = (frameId: string) => formatCameraPose(getCameraPose(nodes, frameId === 'original' ? null : frameId));
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!sequence) return;
+    setExporting(format);
+    setExportError(null);
+    try {
+      const files = frames.map(frame => frame.file);
+      const baseName = `turntable-${sequence.id}`;
+      if (format === 'gif') {
+        downloadBlob(await exportSequenceAsGif(files, frameDelay), `${baseName}.gif`);
+      } else if (format === 'webm') {
+        downloadBlob(await exportSequenceAsWebm(files, frameDelay), `${baseName}.webm`);
+      } else {
+        const labels = frames.map((frame, index) => `${index + 1}. ${labelFor(frame.id)}`);
+        downloadBlob(await createContactSheet(files, labels), `${baseName}-sheet.png`);
+      }
+    } catch (err) {
+      console.error("Could not export the turntable:", err);
+      setExportError(err instanceof Error ? err.message : 'The export failed.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const inputClassName = "px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-300 focus:outline-none transition";
+  const buttonClassName = "px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition";
+
+  return (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800/50 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">Turntable</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">A walk-around made by rotating the camera step by step from the current design.</p>
+        </div>
+        <button onClick={onClose} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">Hide</button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-6">
+        <label className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex flex-col gap-1">
+          Frames
+          <select value={frameCount} onChange={(e) => setFrameCount(Number(e.target.value))} className={`${inputClassName} font-normal`}>
+            {Array.from({ length: MAX_TURNTABLE_FRAMES - 1 }, (_, i) => i + 2).map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        <label className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex flex-col gap-1">
+          Step
+          <select value={stepYaw} onChange={(e) => setStepYaw(Number(e.target.value))} className={`${inputClassName} font-normal`}>
+            {[-90, -45, -30, -15, 15, 30, 45, 90].map(yaw => <option key={yaw} value={yaw}>{Math.abs(yaw)}° {yaw < 0 ? 'left' : 'right'}</option>)}
+          </select>
+        </label>
+        <p className="text-sm text-gray-500 dark:text-gray-400 sm:pb-2 flex-grow">Total sweep: {Math.abs(frameCount * stepYaw)}°</p>
+        <button
+          onClick={() => onGenerate(frameCount, stepYaw)}
+          disabled={disabled}
+          className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          Generate Sequence
+        </button>
+      </div>
+
+      {sequence && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            {sequences.length > 1 && (
+              <select value={sequence.id} onChange={(e) => setSelectedId(e.target.value)} className={`${inputClassName} text-sm`} aria-label="Sequence">
+                {sequences.map((s, index) => (
+                  <option key={s.id} value={s.id}>Sequence {index + 1} ({new Date(s.createdAt).toLocaleString()})</option>
+                ))}
+              </select>
+            )}
+            <span className="text-sm text-gray-500 dark:text-gray-400">{frames.length} frames, {formatCameraPose(sequence.stepMove)} per step</span>
+            <button onClick={() => onDelete(sequence.id)} className="ml-auto text-sm text-red-600 dark:text-red-400 hover:underline">Delete Sequence</button>
+          </div>
+
+          {frames.length > 1 && (
+            <div className="relative aspect-video bg-gray-100 dark:bg-gray-800 rounded-xl overflow-hidden mb-3">
+              <img src={frameUrls[isPlaying ? playIndex % frames.length : 0]} alt="Turntable preview" className="w-full h-full object-contain" />
+              <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-bold px-2 py-1 rounded-full">
+                Frame {(isPlaying ? playIndex % frames.length : 0) + 1} of {frames.length}
+              </span>
+            </div>
+          )}
+
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {frames.map((frame, index) => (
+              <figure key={frame.id} className="flex-shrink-0 w-32">
+                <img src={frameUrls[index]} alt={`Frame ${index + 1}`} className="w-32 h-20 object-cover rounded-md bg-gray-200 dark:bg-gray-700" />
+                <figcaption className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  <p className="font-semibold">{index + 1}. {index === 0 ? 'Start' : labelFor(frame.id)}</p>
+                  {frame.frameIndex >= 0 && (
+                    <button
+                      onClick={() => onRegenerateFrame(sequence.id, frame.frameIndex)}
+                      disabled={disabled}
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Regenerate
+                    </button>
+                  )}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <button onClick={() => { setPlayIndex(0); setIsPlaying(!isPlaying); }} disabled={frames.length < 2} className={buttonClassName}>
+              {isPlaying ? 'Stop' : 'Play'}
+            </button>
+            <select value={frameDelay} onChange={(e) => setFrameDelay(Number(e.target.value))} className={`${inputClassName} text-sm`} aria-label="Frame duration">
+              {FRAME_DELAY_OPTIONS.map(delay => <option key={delay} value={delay}>{delay / 1000}s per frame</option>)}
+            </select>
+            <div className="flex gap-3 sm:ml-auto">
+              <button onClick={() => handleExport('gif')} disabled={!!exporting || frames.length < 2} className={buttonClassName}>
+                {exporting === 'gif' ? 'Exporting...' : 'GIF'}
+              </button>
+              <button onClick={() => handleExport('webm')} disabled={!!exporting || frames.length < 2} className={buttonClassName}>
+                {exporting === 'webm' ? 'Recording...' : 'WebM'}
+              </button>
+              <button onClick={() => handleExport('sheet')} disabled={!!exporting} className={buttonClassName}>
+                {exporting === 'sheet' ? 'Exporting...' : 'Contact Sheet'}
+              </button>
+            </div>
+          </div>
+          {exportError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{exportError}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TurntablePanel;
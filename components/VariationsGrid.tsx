@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { VariationCandidate } from '../types';
+import { isLikelyDrift } from '../utils/imageCompare';
+
+interface VariationsGridProps {
+  candidates: VariationCandidate[];
+  onPromote: (candidateIds: string[]) => void;
+  onRetry: (candidateId: string) => void;
+  onCancel: () => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const CheckIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><polyline points="20 6 9 17 4 12"></polyline></svg>
+);
+
+const VariationsGrid: React.FC<VariationsGridProps> = ({ candidates, onPromote, onRetry, onCancel, onDiscard, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const hasPending = candidates.some(c => c.status === 'pending');
+
+  // Tick while requests are in flight so each tile can show its elapsed time.
+  useEffect(() => {
+    if (!hasPending) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [hasPending]);
+
+  // Drop selections for tiles that are gone or have already been promoted.
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => candidates.some(c => c.id === id && c.status === 'done' && !c.promoted)));
+  }, [candidates]);
+
+  const imageUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    candidates.forEach(c => {
+      if (c.node) urls[c.id] = URL.createObjectURL(c.node.file);
+    });
+    return urls;
+  }, [candidates]);
+
+  useEffect(() => {
+    return () => Object.keys(imageUrls).forEach(id => URL.revokeObjectURL(imageUrls[id]));
+  }, [imageUrls]);
+
+  const toggleSelected = (candidate: VariationCandidate) => {
+    if (candidate.status !== 'done' || candidate.promoted) return;
+    setSelectedIds(prev => prev.includes(candidate.id) ? prev.filter(id => id !== candidate.id) : [...prev, candidate.id]);
+  };
+
+  const doneCount = candidates.filter(c => c.status === 'done').length;
+  const remainingCount = candidates.filter(c => c.status === 'done' && !c.promoted).length;
+
+  return (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800/50 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">Variations</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{doneCount} of {candidates.length} ready. Select the ones to keep.</p>
+        </div>
+        <button onClick={onClose} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">Hide</button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {candidates.map((candidate, index) => {
+          const isSelected = selectedIds.includes(candidate.id);
+          return (
+            <div
+              key={candidate.id}
+              onClick={() => toggleSelected(candidate)}
+              className={`relative aspect-video rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-900 border-2 transition-all ${
+                isSelected ? 'border-indigo-500' : 'border-transparent'
+              } ${candidate.status === 'done' && !candidate.promoted ? 'cursor-pointer hover:border-gray-400 dark:hover:border-gray-500' : ''}`}
+            >
+              {candidate.status === 'pending' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 dark:text-gray-400">
+                  <div className="w-2/3 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full w-1/3 bg-gray-900 dark:bg-gray-100 rounded-full animate-pulse" />
+                  </div>
+                  <p className="mt-2 text-xs">Generating... {Math.max(0, Math.floor((now - candidate.startedAt) / 1000))}s</p>
+                  {candidate.attempt && candidate.attempt.attempt > 1 && (
+                    <p className="text-xs text-amber-700 dark:text-amber-300" title={candidate.attempt.lastError}>Attempt {candidate.attempt.attempt} of {candidate.attempt.maxAttempts}</p>
+                  )}
+                </div>
+              )}
+              {candidate.status === 'error' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center p-3 text-center bg-red-50 dark:bg-red-900/30">
+                  <p className="text-xs text-red-800 dark:text-red-200 line-clamp-3">{candidate.error}</p>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRetry(candidate.id); }}
+                    className="mt-2 px-3 py-1 text-xs font-semibold rounded-md border border-red-400 dark:border-red-700 text-red-800 dark:text-red-200 hover:bg-red-100 dark:hover:bg-red-900/50 transition"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
+              {candidate.status === 'done' && imageUrls[candidate.id] && (
+                <img src={imageUrls[candidate.id]} alt={`Variation ${index + 1}`} className={`w-full h-full object-contain ${candidate.promoted ? 'opacity-50' : ''}`} />
+              )}
+              <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-bold px-2 py-0.5 rounded-full">{index + 1}</span>
+              {isSelected && (
+                <span className="absolute top-2 right-2 bg-indigo-500 text-white p-1 rounded-full"><CheckIcon /></span>
+              )}
+              {candidate.promoted && (
+                <span className="absolute bottom-2 left-2 bg-green-500 text-white text-xs font-bold px-2 py-0.5 rounded-full">In history</span>
+              )}
+              {isLikelyDrift(candidate.node?.metadata?.fidelityScore) && (
+                <span className="absolute bottom-2 right-2 bg-amber-500 text-white text-xs font-bold px-2 py-0.5 rounded-full" title="This result differs strongly from the source outside the edited area.">Drifted</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex flex-col sm:flex-row gap-3 justify-end">
+        {hasPending && (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 font-semibold rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition"
+          >
+            Cancel Pending
+          </button>
+        )}
+        <button
+          onClick={onDiscard}
+          disabled={hasPending || remainingCount === 0}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          Discard Remaining
+        </button>
+        <button
+          onClick={() => onPromote(selectedIds)}
+          disabled={selectedIds.length === 0}
+          className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 font-bold rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          Add Selected to History{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariationsGrid;
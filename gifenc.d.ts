@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Type declarations for the parts of gifenc used by the sequence exporter; the package ships none.
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: {
+      palette?: Palette;
+      delay?: number;
+      repeat?: number;
+      transparent?: boolean;
+      transparentIndex?: number;
+      dispose?: number;
+    }): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444' }): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: 'rgb565' | 'rgb444' | 'rgba4444'): Uint8Array;
+}
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useMemo } from 'react';
+
+/**
+ * Creates an object URL for a blob while a component shows it, revoking it when the blob changes or the component unmounts.
+ * @param blob The blob to show, or null for none.
+ * @returns The object URL, or null when there is no blob.
+ */
+export const useObjectUrl = (blob: Blob | null | undefined): string | null => {
+    const url = useMemo(() => blob ? URL.createObjectURL(blob) : null, [blob]);
+    useEffect(() => () => {
+        if (url) URL.revokeObjectURL(url);
+    }, [url]);
+    return url;
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { useObjectUrl } from './useObjectUrl';
+import { Product, ScenePoint } from '../types';
+
+interface UseProductDragOptions {
+    // The scene image products are dropped on.
+    sceneRef: React.RefObject<HTMLImageElement | null>;
+    // The data-dropzone-id of the element around the scene, used to find the drop target of a touch.
+    dropzoneId: string;
+    // Drops are ignored while set, e.g. while a generation runs.
+    disabled: boolean;
+    // Called with the product and where on the scene it was dropped, as fractions of the photo.
+    onDrop: (product: Product, point: ScenePoint) => void;
+}
+
+// Helper to convert a point on screen to a point on an image shown with object-contain, or null if it misses the picture
+const getImagePoint = (img: HTMLImageElement, clientX: number, clientY: number): ScenePoint | null => {
+    if (!img.naturalWidth || !img.naturalHeight) return null;
+    const rect = img.getBoundingClientRect();
+    const scale = Math.min(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    const x = (clientX - rect.left - (rect.width - width) / 2) / width;
+    const y = (clientY - rect.top - (rect.height - height) / 2) / height;
+    return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
+
+/**
+ * Drags catalog products onto the scene with the mouse or, on touch screens, with a ghost image that follows the finger.
+ */
+export const useProductDrag = ({ sceneRef, dropzoneId, disabled, onDrop }: UseProductDragOptions) => {
+    const [draggedProduct, setDraggedProduct] = useState<Product | null>(null);
+    const [isProductDraggingOver, setIsProductDraggingOver] = useState(false);
+    const [touchGhostPosition, setTouchGhostPosition] = useState<{ x: number; y: number } | null>(null);
+    // Only a touch drag has a ghost position; the URL is revoked as soon as the drag ends.
+    const touchGhostUrl = useObjectUrl(touchGhostPosition && draggedProduct ? draggedProduct.image : null);
+
+    const dropAt = (product: Product, clientX: number, clientY: number) => {
+        const img = sceneRef.current;
+        const point = img && !disabled ? getImagePoint(img, clientX, clientY) : null;
+        if (point) onDrop(product, point);
+    };
+
+    const handleProductDragStart = (e: React.DragEvent, product: Product) => {
+        e.dataTransfer.setData('text/plain', product.name);
+        e.dataTransfer.effectAllowed = 'copy';
+        setDraggedProduct(product);
+    };
+
+    const handleProductDragEnd = () => {
+        setDraggedProduct(null);
+        setIsProductDraggingOver(false);
+    };
+
+    const handleProductDragOver = (e: React.DragEvent) => {
+        if (!draggedProduct) return;
+        e.dataTransfer.dropEffect = 'copy';
+        setIsProductDraggingOver(true);
+    };
+
+    const handleProductDragLeave = () => setIsProductDraggingOver(false);
+
+    const handleProductDrop = (e: React.DragEvent) => {
+        setIsProductDraggingOver(false);
+        if (draggedProduct) dropAt(draggedProduct, e.clientX, e.clientY);
+        setDraggedProduct(null);
+    };
+
+    // Touch screens have no drag and drop, so a ghost image follows the finger and the drop target is found by position.
+    const isOverScene = (clientX: number, clientY: number) =>
+        !!document.elementFromPoint(clientX, clientY)?.closest(`[data-dropzone-id="${dropzoneId}"]`);
+
+    const handleProductTouchStart = (e: React.TouchEvent, product: Product) => {
+        const touch = e.touches[0];
+        if (!touch) return;
+        setDraggedProduct(product);
+        setTouchGhostPosition({ x: touch.clientX, y: touch.clientY });
+    };
+
+    const handleProductTouchMove = (e: React.TouchEvent) => {
+        const touch = e.touches[0];
+        if (!draggedProduct || !touch) return;
+        setTouchGhostPosition({ x: touch.clientX, y: touch.clientY });
+        setIsProductDraggingOver(isOverScene(touch.clientX, touch.clientY));
+    };
+
+    const handleProductTouchEnd = (e: React.TouchEvent) => {
+        const touch = e.changedTouches[0];
+        if (draggedProduct && touch && isOverScene(touch.clientX, touch.clientY)) {
+            dropAt(draggedProduct, touch.clientX, touch.clientY);
+        }
+        setDraggedProduct(null);
+        setTouchGhostPosition(null);
+        setIsProductDraggingOver(false);
+    };
+
+    return {
+        isProductDraggingOver,
+        touchGhostUrl,
+        touchGhostPosition,
+        handleProductDragStart,
+        handleProductDragEnd,
+        handleProductDragOver,
+        handleProductDragLeave,
+        handleProductDrop,
+        handleProductTouchStart,
+        handleProductTouchMove,
+        handleProductTouchEnd,
+    };
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { loadProductsFromDB, saveProductToDB, deleteProductFromDB } from '../services/storageService';
+import { ProductDetails } from '../components/AddProductModal';
+import { Product } from '../types';
+
+interface UseProductLibraryOptions {
+    // Shows a message when the saved library can't be loaded.
+    onError: (message: string) => void;
+}
+
+/**
+ * Keeps the product library, shared by every session, in step with storage.
+ */
+export const useProductLibrary = ({ onError }: UseProductLibraryOptions) => {
+    const [libraryProducts, setLibraryProducts] = useState<Product[]>([]);
+
+    useEffect(() => {
+        loadProductsFromDB()
+            .then(saved => {
+                // Products added while the library was loading are already saved too; keep them, once each.
+                setLibraryProducts(prev => [...saved, ...prev.filter(p => !saved.some(s => s.id === p.id))]);
+            })
+            .catch(err => {
+                console.error('Could not load the product library:', err);
+                onError('Your saved products could not be loaded.');
+            });
+    }, []);
+
+    // Saves a new product to the library and returns it.
+    const addLibraryProduct = (details: ProductDetails): Product => {
+        const product: Product = { ...details, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, createdAt: Date.now() };
+        setLibraryProducts(prev => [...prev, product]);
+        saveProductToDB(product);
+        return product;
+    };
+
+    // Removes a product from the library after the user confirms; products already placed in a design stay there.
+    const deleteLibraryProduct = (product: Product) => {
+        if (!window.confirm(`Remove "${product.name}" from your product library?`)) return;
+        setLibraryProducts(prev => prev.filter(p => p.id !== product.id));
+        deleteProductFromDB(product.id);
+    };
+
+    return { libraryProducts, addLibraryProduct, deleteLibraryProduct };
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState } from 'react';
+import { getImageDimensions } from '../utils/fileUtils';
+import { MAX_PLACED_PRODUCTS, createPlacedProduct, createProductBox } from '../utils/products';
+import { PlacedProduct, Product, SceneBox, ScenePoint } from '../types';
+
+interface UsePlacementOptions {
+    // The size of the original photo, which the boxes are proportioned to.
+    originalDimensions: { width: number; height: number } | null;
+    // Shows a message when a product can't be added.
+    onError: (message: string) => void;
+}
+
+/**
+ * Keeps the products to add in the next generation, in the order they were added, each in an optional box on the scene.
+ */
+export const useProductPlacement = ({ originalDimensions, onError }: UsePlacementOptions) => {
+    const [placedProducts, setPlacedProducts] = useState<PlacedProduct[]>([]);
+
+    // Adds a product to the next generation, unless it already has as many as one request can take.
+    const addPlacedProduct = (placed: PlacedProduct) => {
+        if (placedProducts.length >= MAX_PLACED_PRODUCTS) {
+            onError(`A single design can include up to ${MAX_PLACED_PRODUCTS} products. Remove one to add another.`);
+            return;
+        }
+        // Checked again against the latest list: drops still measuring their box may have added products since this render.
+        setPlacedProducts(prev => prev.length >= MAX_PLACED_PRODUCTS ? prev : [...prev, placed]);
+    };
+
+    // Makes the starting box for a product centred on a point of the scene, with the product's proportions.
+    const createBoxAt = async (image: File, centre: ScenePoint): Promise<SceneBox | null> => {
+        if (!originalDimensions) return null;
+        const { width, height } = await getImageDimensions(image);
+        return createProductBox(centre, width / height, originalDimensions.width / originalDimensions.height);
+    };
+
+    // Adds a catalog product to the next generation, in a box centred where it was dropped.
+    const placeProduct = async (product: Product, point: ScenePoint) => {
+        try {
+            addPlacedProduct(createPlacedProduct(product, await createBoxAt(product.image, point)));
+        } catch (err) {
+            console.error(`Could not place ${product.name}:`, err);
+            onError(`The image of "${product.name}" could not be read, so it was not added.`);
+        }
+    };
+
+    const moveProduct = (placedId: string, box: SceneBox) => {
+        setPlacedProducts(prev => prev.map(p => p.id === placedId ? { ...p, box } : p));
+    };
+
+    // Gives a product the model was going to place on its own a box in the middle of the scene.
+    const placeInScene = async (placed: PlacedProduct) => {
+        try {
+            const box = await createBoxAt(placed.image, { x: 0.5, y: 0.5 });
+            if (box) moveProduct(placed.id, box);
+        } catch (err) {
+            console.error(`Could not place ${placed.name}:`, err);
+            onError(`The image of "${placed.name}" could not be read, so it could not be placed.`);
+        }
+    };
+
+    const removeProduct = (placedId: string) => setPlacedProducts(prev => prev.filter(p => p.id !== placedId));
+
+    const clearPlacedProducts = () => setPlacedProducts([]);
+
+    return { placedProducts, addPlacedProduct, placeProduct, moveProduct, placeInScene, removeProduct, clearPlacedProducts };
+};
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState } from 'react';
+import { GenerationRequestOptions } from '../services/geminiService';
+import { runGeneration } from '../services/generationRunner';
+import { GenerationError, toGenerationError } from '../services/generationErrors';
+import { isCancelledError } from '../utils/retry';
+import { ZERO_CAMERA_POSE, addCameraPoses, getCameraPose } from '../utils/cameraPose';
+import { CameraPose, DesignSession, GenerationInputs, GenerationNode, TurntableSequence } from '../types';
+
+interface UseTurntableOptions {
+    activeSessionId: string | null;
+    sceneImage: File | null;
+    // The design the next turntable starts from.
+    currentWorkingImage: File | null;
+    originalDimensions: { width: number; height: number } | null;
+    generations: GenerationNode[];
+    currentNodeId: string | null;
+    // The active session's sequences.
+    turntables: TurntableSequence[];
+    updateSession: (sessionId: string, update: (session: DesignSession) => DesignSession) => void;
+    addNodesToHistory: (nodes: GenerationNode[]) => void;
+    // Start and finish a request behind the loading overlay.
+    beginRequest: () => GenerationRequestOptions;
+    endRequest: () => void;
+    setError: (message: string | null, cause?: GenerationError | null) => void;
+}
+
+// Helper to make the inputs of one turntable frame, a fixed camera step from the frame before it
+const getFrameInputs = (sourceImage: File, stepMove: CameraPose): GenerationInputs => ({
+    sourceImage,
+    userPrompt: null,
+    backgroundImage: null,
+    cameraMove: stepMove,
+});
+
+/**
+ * Generates turntable sequences: chains of rotation steps from one design, kept on the session so they can be exported.
+ */
+export const useTurntable = ({
+    activeSessionId, sceneImage, currentWorkingImage, originalDimensions, generations, currentNodeId, turntables,
+    updateSession, addNodesToHistory, beginRequest, endRequest, setError,
+}: UseTurntableOptions) => {
+    const [isTurntableOpen, setIsTurntableOpen] = useState(false);
+    // Frame being generated while a turntable runs behind the loading overlay.
+    const [turntableProgress, setTurntableProgress] = useState<{ current: number; total: number } | null>(null);
+
+    // Chains rotation steps from the current design, feeding each result into the next, and records them as a sequence.
+    // Frames finished before a failure or cancellation are kept.
+    const runTurntable = async (frameCount: number, stepYaw: number) => {
+        if (!currentWorkingImage || !originalDimensions) {
+            setError('An image must be present to create a turntable.');
+            return;
+        }
+
+        const stepMove: CameraPose = { ...ZERO_CAMERA_POSE, yaw: stepYaw };
+        const startNodeId = currentNodeId;
+        const newNodes: GenerationNode[] = [];
+        const requestOptions = beginRequest();
+        try {
+            let source = currentWorkingImage;
+            let parentId = startNodeId;
+            let pose = getCameraPose(generations, startNodeId);
+            for (let i = 0; i < frameCount; i++) {
+                setTurntableProgress({ current: i + 1, total: frameCount });
+                const { node } = await runGeneration('rotate', getFrameInputs(source, stepMove), originalDimensions, parentId, requestOptions, pose);
+                newNodes.push(node);
+                source = node.file;
+                parentId = node.id;
+                pose = node.metadata?.cameraPose ?? addCameraPoses(pose, stepMove);
+            }
+        } catch (err) {
+            if (!isCancelledError(err)) {
+                const cause = toGenerationError(err);
+                setError(`Failed to generate turntable frame ${newNodes.length + 1} of ${frameCount}. ${cause.message}`, cause);
+                console.error(err);
+            }
+        } finally {
+            if (newNodes.length > 0) {
+                const sequence: TurntableSequence = {
+                    id: Date.now().toString(),
+                    createdAt: Date.now(),
+                    stepMove,
+                    startNodeId,
+                    frameIds: newNodes.map(n => n.id),
+                };
+                addNodesToHistory(newNodes);
+                if (activeSessionId) {
+                    updateSession(activeSessionId, s => ({ ...s, turntables: [...(s.turntables ?? []), sequence] }));
+                }
+            }
+            setTurntableProgress(null);
+            endRequest();
+        }
+    };
+
+    // Generates one frame of a turntable again from the frame before it and swaps it into the sequence.
+    const regenerateTurntableFrame = async (sequenceId: string, frameIndex: number) => {
+        const sequence = turntables.find(t => t.id === sequenceId);
+        if (!sequence || !sceneImage || !originalDimensions) return;
+        const previousId = frameIndex === 0 ? sequence.startNodeId : sequence.frameIds[frameIndex - 1];
+        const previousFile = previousId ? generations.find(n => n.id === previousId)?.file : sceneImage;
+        if (!previousFile) {
+            setError('The frame before this one no longer exists, so it cannot be regenerated.');
+            return;
+        }
+
+        const requestOptions = beginRequest();
+        try {
+            const { node } = await runGeneration('rotate', getFrameInputs(previousFile, sequence.stepMove), originalDimensions, previousId, requestOptions, getCameraPose(generations, previousId));
+            addNodesToHistory([node]);
+            if (activeSessionId) {
+                updateSession(activeSessionId, s => ({
+                    ...s,
+                    turntables: (s.turntables ?? []).map(t => t.id === sequenceId
+                        ? { ...t, frameIds: t.frameIds.map((id, index) => index === frameIndex ? node.id : id) }
+                        : t),
+                }));
+            }
+        } catch (err) {
+            if (isCancelledError(err)) return;
+            const cause = toGenerationError(err);
+            setError(`Failed to regenerate the turntable frame. ${cause.message}`, cause);
+            console.error(err);
+        } finally {
+            endRequest();
+        }
+    };
+
+    const deleteTurntable = (sequenceId: string) => {
+        if (activeSessionId) {
+            updateSession(activeSessionId, s => ({ ...s, turntables: (s.turntables ?? []).filter(t => t.id !== sequenceId) }));
+        }
+    };
+
+    return {
+        isTurntableOpen,
+        setIsTurntableOpen,
+        turntableProgress,
+        runTurntable,
+        regenerateTurntableFrame,
+        deleteTurntable,
+    };
+};
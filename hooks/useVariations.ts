@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useRef, useState } from 'react';
+import { runGeneration } from '../services/generationRunner';
+import { toGenerationError } from '../services/generationErrors';
+import { isCancelledError } from '../utils/retry';
+import { DesignSession, GenerationInputs, GenerationNode, VariationCandidate } from '../types';
+
+export const MAX_VARIATIONS = 6;
+
+// Inputs captured when a variations batch starts, so failed tiles can be retried
+// after the working state has been cleared.
+export interface VariationBatch {
+    sessionId: string | null;
+    parentId: string | null;
+    inputs: GenerationInputs;
+    dimensions: { width: number; height: number };
+}
+
+export type VariationOutcome = 'done' | 'error' | 'cancelled';
+
+interface UseVariationsOptions {
+    activeSessionId: string | null;
+    // Variations kept on the active session from earlier visits.
+    savedCandidates: GenerationNode[];
+    updateSession: (sessionId: string, update: (session: DesignSession) => DesignSession) => void;
+    // Called for every tile that finishes, e.g. to show its request in the debug view.
+    onVariationDone: (node: GenerationNode, debugImageUrl: string | null) => void;
+}
+
+/**
+ * Runs batches of variations of one edit, each tile with its own seed, progress and cancellation.
+ * Finished tiles are kept on their session as candidates until they are promoted to the history or discarded.
+ */
+export const useVariations = ({ activeSessionId, savedCandidates, updateSession, onVariationDone }: UseVariationsOptions) => {
+    const [variationCount, setVariationCount] = useState<number>(1);
+    const [variations, setVariations] = useState<VariationCandidate[]>([]);
+    const [isVariationsOpen, setIsVariationsOpen] = useState(false);
+    const variationBatchRef = useRef<VariationBatch | null>(null);
+    // One controller per pending variation tile, keyed by candidate id.
+    const variationControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+    const isGeneratingVariations = variations.some(c => c.status === 'pending');
+
+    // Runs a single tile of a variations batch, reporting success or failure on that tile only.
+    const runVariation = async (batch: VariationBatch, candidateId: string, seed: number): Promise<VariationOutcome> => {
+        const controller = new AbortController();
+        variationControllersRef.current.set(candidateId, controller);
+        try {
+            const { node, debugImageUrl } = await runGeneration('edit', { ...batch.inputs, seed }, batch.dimensions, batch.parentId, {
+                signal: controller.signal,
+                onAttempt: attempt => setVariations(prev => prev.map(c => c.id === candidateId ? { ...c, attempt } : c)),
+            });
+
+            setVariations(prev => prev.map(c => c.id === candidateId ? { ...c, status: 'done', node } : c));
+            if (batch.sessionId) {
+                updateSession(batch.sessionId, s => ({ ...s, candidates: [...(s.candidates ?? []), node] }));
+            }
+            onVariationDone(node, debugImageUrl);
+            return 'done';
+        } catch (err) {
+            if (isCancelledError(err)) {
+                setVariations(prev => prev.map(c => c.id === candidateId ? { ...c, status: 'error', error: 'Cancelled.' } : c));
+                return 'cancelled';
+            }
+            const errorMessage = toGenerationError(err).message;
+            console.error(err);
+            setVariations(prev => prev.map(c => c.id === candidateId ? { ...c, status: 'error', error: errorMessage } : c));
+            return 'error';
+        } finally {
+            variationControllersRef.current.delete(candidateId);
+        }
+    };
+
+    // Starts as many tiles as the variation count asks for and resolves with the outcome of each once all have finished.
+    const generateVariations = async (batch: VariationBatch): Promise<VariationOutcome[]> => {
+        variationBatchRef.current = batch;
+
+        const batchId = Date.now().toString();
+        const baseSeed = Math.floor(Math.random() * 1_000_000);
+        const newCandidates: VariationCandidate[] = Array.from({ length: variationCount }, (_, i) => ({
+            id: `${batchId}-${i}`,
+            status: 'pending',
+            node: null,
+            error: null,
+            startedAt: Date.now(),
+            promoted: false,
+            parentId: batch.parentId,
+        }));
+
+        setVariations(newCandidates);
+        setIsVariationsOpen(true);
+
+        return Promise.all(newCandidates.map((c, i) => runVariation(batch, c.id, baseSeed + i)));
+    };
+
+    const retryVariation = (candidateId: string) => {
+        const batch = variationBatchRef.current;
+        if (!batch) return;
+        setVariations(prev => prev.map(c => c.id === candidateId ? { ...c, status: 'pending', error: null, startedAt: Date.now(), attempt: undefined } : c));
+        runVariation(batch, candidateId, Math.floor(Math.random() * 1_000_000));
+    };
+
+    const cancelVariations = () => {
+        variationControllersRef.current.forEach(controller => controller.abort());
+    };
+
+    // Marks finished tiles as promoted and takes them off the session's candidates, returning their nodes for the history.
+    const promoteVariations = (candidateIds: string[]): GenerationNode[] => {
+        const promoted = variations
+            .filter(c => candidateIds.includes(c.id) && c.node && !c.promoted)
+            .map(c => c.node as GenerationNode);
+        if (promoted.length === 0) return [];
+
+        const promotedIds = promoted.map(n => n.id);
+        setVariations(prev => prev.map(c => candidateIds.includes(c.id) ? { ...c, promoted: true } : c));
+        if (activeSessionId) {
+            updateSession(activeSessionId, s => ({ ...s, candidates: (s.candidates ?? []).filter(n => !promotedIds.includes(n.id)) }));
+        }
+        return promoted;
+    };
+
+    const discardVariations = () => {
+        const discardedIds = variations.filter(c => c.status === 'done' && !c.promoted).map(c => c.node?.id);
+        if (activeSessionId) {
+            updateSession(activeSessionId, s => ({ ...s, candidates: (s.candidates ?? []).filter(n => !discardedIds.includes(n.id)) }));
+        }
+        setVariations([]);
+        setIsVariationsOpen(false);
+    };
+
+    const showVariations = () => {
+        if (variations.length === 0) {
+            // Rebuild the grid from the candidates kept on the session.
+            setVariations(savedCandidates.map(node => ({
+                id: `saved-${node.id}`,
+                status: 'done',
+                node,
+                error: null,
+                startedAt: 0,
+                promoted: false,
+                parentId: node.parentId,
+            })));
+        }
+        setIsVariationsOpen(true);
+    };
+
+    // Forgets the grid and the last batch, e.g. when another session is opened.
+    const resetVariations = () => {
+        setVariations([]);
+        setIsVariationsOpen(false);
+        variationBatchRef.current = null;
+    };
+
+    return {
+        variationCount,
+        setVariationCount,
+        variations,
+        isVariationsOpen,
+        setIsVariationsOpen,
+        isGeneratingVariations,
+        generateVariations,
+        retryVariation,
+        cancelVariations,
+        promoteVariations,
+        discardVariations,
+        showVariations,
+        resetVariations,
+    };
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { exportSessionsToBundle, readSessionBundle, resolveImportedSessions } from './bundleService';
+import { DesignSession } from '../types';
+
+const createSession = (id: string, name: string): DesignSession => ({
+    id,
+    name,
+    timestamp: 1,
+    thumbnail: 'data:,',
+    sceneImage: new File([`scene of ${name}`], 'scene.png', { type: 'image/png', lastModified: 1 }),
+    originalDimensions: { width: 4, height: 3 },
+    generations: [],
+});
+
+describe('resolveImportedSessions', () => {
+    const existingIds = new Set(['a']);
+    const imported = [createSession('a', 'Front yard'), createSession('b', 'Back yard')];
+
+    it('adds clashing projects as renamed copies when keeping both', () => {
+        const added = resolveImportedSessions(imported, existingIds, 'keep-both');
+
+        expect(added).toHaveLength(2);
+        expect(added[0].id).not.toBe('a');
+        expect(added[0].name).toBe('Front yard (imported)');
+        expect(added[0].sceneImage).toBe(imported[0].sceneImage);
+        expect(added[1]).toBe(imported[1]);
+    });
+
+    it('keeps the ids of clashing projects when replacing', () => {
+        const added = resolveImportedSessions(imported, existingIds, 'replace');
+
+        expect(added.map(s => s.id)).toEqual(['a', 'b']);
+        expect(added[0].name).toBe('Front yard');
+    });
+
+    it('leaves out clashing projects when skipping', () => {
+        expect(resolveImportedSessions(imported, existingIds, 'skip')).toEqual([imported[1]]);
+    });
+
+    it('gives every copy of one import its own id', () => {
+        const added = resolveImportedSessions([createSession('a', 'One'), createSession('a', 'Two')], existingIds, 'keep-both');
+
+        expect(new Set(added.map(s => s.id)).size).toBe(2);
+    });
+});
+
+describe('project bundles', () => {
+    it('reads back the projects it exported, images included', async () => {
+        const session = createSession('a', 'Front yard');
+
+        const bundle = await exportSessionsToBundle([session]);
+        const [restored] = await readSessionBundle(new File([bundle], 'project.zip'));
+
+        expect(restored.id).toBe('a');
+        expect(restored.name).toBe('Front yard');
+        expect(restored.sceneImage.name).toBe('scene.png');
+        expect(await restored.sceneImage.text()).toBe('scene of Front yard');
+    });
+
+    it('rejects files that are not bundles', async () => {
+        await expect(readSessionBundle(new File(['not a zip'], 'notes.zip'))).rejects.toThrow('not a valid project bundle');
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { DesignSession } from '../types';
+import { serializeValue, deserializeValue, collectBlobRefs } from '../utils/blobRefs';
+
+// Bundle layout:
+//   manifest.json  - format marker, schema version and the sessions with every File replaced by a blob reference
+//   blobs/<sha256> - raw image data, stored once per unique content
+const BUNDLE_FORMAT = 'archidesigner-bundle';
+// Version history:
+// 1 - initial layout.
+const BUNDLE_SCHEMA_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const BLOBS_DIR = 'blobs/';
+
+// What to do with imported projects that already exist: add them as copies, overwrite the existing ones, or leave them out.
+export type ImportConflictResolution = 'keep-both' | 'replace' | 'skip';
+
+interface BundleManifest {
+    format: string;
+    schemaVersion: number;
+    exportedAt: number;
+    sessions: Record<string, unknown>[];
+}
+
+/**
+ * Packs design sessions, including every image they reference, into a single zip file.
+ * @param sessions - The fully loaded sessions to export.
+ * @returns A promise that resolves to the bundle as a zip Blob.
+ */
+export const exportSessionsToBundle = async (sessions: DesignSession[]): Promise<Blob> => {
+    const blobs = new Map<string, Blob>();
+    const records = await Promise.all(sessions.map(session => serializeValue(session, blobs))) as Record<string, unknown>[];
+
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        sessions: records,
+    };
+
+    const files: Zippable = { [MANIFEST_PATH]: strToU8(JSON.stringify(manifest)) };
+    await Promise.all(Array.from(blobs.entries()).map(async ([hash, blob]) => {
+        // Images are already compressed, so store them as-is.
+        files[`${BLOBS_DIR}${hash}`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    }));
+
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+// Helper to check that a manifest entry has the fields every session needs
+const isValidSessionRecord = (record: unknown): record is Record<string, unknown> & { id: string } => {
+    if (!record || typeof record !== 'object') return false;
+    const r = record as Record<string, unknown>;
+    return typeof r.id === 'string'
+        && typeof r.name === 'string'
+        && typeof r.timestamp === 'number'
+        && !!r.sceneImage
+        && !!r.originalDimensions
+        && Array.isArray(r.generations);
+};
+
+/**
+ * Reads a bundle created by exportSessionsToBundle.
+ * @param file - The zip file chosen by the user.
+ * @returns A promise that resolves to the sessions in the bundle, with all images restored.
+ * @throws An error describing why the file is not a usable bundle.
+ */
+export const readSessionBundle = async (file: File): Promise<DesignSession[]> => {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+        console.error("Failed to unzip bundle:", error);
+        throw new Error("This file is not a valid project bundle.");
+    }
+
+    const manifestData = entries[MANIFEST_PATH];
+    if (!manifestData) {
+        throw new Error("This file is not a valid project bundle: the manifest is missing.");
+    }
+
+    let manifest: BundleManifest;
+    try {
+        manifest = JSON.parse(strFromU8(manifestData));
+    } catch {
+        throw new Error("This project bundle has a corrupted manifest.");
+    }
+
+    if (manifest.format !== BUNDLE_FORMAT || typeof manifest.schemaVersion !== 'number' || !Array.isArray(manifest.sessions)) {
+        throw new Error("This file is not a valid project bundle.");
+    }
+    if (manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+        throw new Error(`This project bundle was created by a newer version of the app (format version ${manifest.schemaVersion}). Please update to import it.`);
+    }
+    if (!manifest.sessions.every(isValidSessionRecord)) {
+        throw new Error("This project bundle contains an incomplete project.");
+    }
+
+    const hashes = new Set<string>();
+    manifest.sessions.forEach(record => collectBlobRefs(record, hashes));
+    const blobs = new Map<string, Blob>();
+    hashes.forEach(hash => {
+        const data = entries[`${BLOBS_DIR}${hash}`];
+        if (data) blobs.set(hash, new Blob([data]));
+    });
+    if (blobs.size !== hashes.size) {
+        throw new Error("This project bundle is missing some of its images.");
+    }
+
+    return manifest.sessions.map(record => deserializeValue(record, blobs) as DesignSession);
+};
+
+/**
+ * Decides which sessions of a bundle to add to storage. Sessions that don't exist yet are always added;
+ * the resolution decides what happens to those with the id of an existing session.
+ * @param imported - The sessions read from the bundle.
+ * @param existingIds - The ids of the sessions already stored.
+ * @param resolution - How to handle sessions that already exist.
+ * @returns The sessions to add, in bundle order; copies kept alongside an existing session get a new id and name.
+ */
+export const resolveImportedSessions = (imported: DesignSession[], existingIds: Set<string>, resolution: ImportConflictResolution): DesignSession[] => {
+    const sessionsToAdd: DesignSession[] = [];
+    imported.forEach((session, index) => {
+        if (!existingIds.has(session.id)) {
+            sessionsToAdd.push(session);
+        } else if (resolution === 'keep-both') {
+            sessionsToAdd.push({ ...session, id: `${Date.now()}-${index}`, name: `${session.name} (imported)` });
+        } else if (resolution === 'replace') {
+            sessionsToAdd.push(session);
+        }
+    });
+    return sessionsToAdd;
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generateRotatedView, redesignRoom } from './geminiService';
+import { getImageProvider, setImageProvider } from './imageProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { MissingApiKeyError } from './generationErrors';
+import { DEFAULT_SETTINGS, saveSettings } from './settingsService';
+import { isLikelyDrift } from '../utils/imageCompare';
+import { createTestImage, getSize } from '../test/images';
+
+describe('generation with the offline mock provider', () => {
+    beforeEach(() => {
+        // The smallest working resolution keeps the pipeline quick.
+        saveSettings({ ...DEFAULT_SETTINGS, workingResolution: 512 });
+        setImageProvider(createMockProvider({ latencyMs: 0 }));
+    });
+
+    afterEach(() => {
+        setImageProvider(null);
+    });
+
+    it('redesigns a room and returns a result the size of the original photo', async () => {
+        const scene = await createTestImage(800, 600);
+
+        const result = await redesignRoom({ imageToProcess: scene, originalWidth: 800, originalHeight: 600, userPrompt: 'Add a pergola' });
+
+        expect(result.provider).toBe('mock');
+        expect(result.parameters.aspectRatio).toBe('4:3');
+        expect(result.finalPrompt).toContain('"Add a pergola"');
+        expect(result.finalImageUrl.startsWith('data:image/png')).toBe(true);
+        expect(await getSize(result.finalImageUrl)).toEqual({ width: 800, height: 600 });
+        // The mock tints the whole image, so the score is low but still measured.
+        expect(result.fidelityScore).not.toBeNull();
+    });
+
+    it('crops padding back off when the photo has no supported aspect ratio', async () => {
+        const scene = await createTestImage(700, 300);
+
+        const result = await redesignRoom({ imageToProcess: scene, originalWidth: 700, originalHeight: 300, userPrompt: 'Paint the walls white' });
+
+        expect(result.parameters.aspectRatio).toBe('21:9');
+        expect(result.finalPrompt).toContain('Ignore Padding');
+        expect(await getSize(result.finalImageUrl)).toEqual({ width: 700, height: 300 });
+    });
+
+    it('keeps the working resolution when output resolution is not preserved', async () => {
+        saveSettings({ ...DEFAULT_SETTINGS, workingResolution: 512, preserveResolution: false });
+        const scene = await createTestImage(1024, 768);
+
+        const result = await redesignRoom({ imageToProcess: scene, originalWidth: 1024, originalHeight: 768, userPrompt: 'Add a hedge' });
+
+        expect(await getSize(result.finalImageUrl)).toEqual({ width: 512, height: 384 });
+    });
+
+    it('describes product boxes within the photo and adds a placement guide', async () => {
+        const scene = await createTestImage(800, 600);
+        const product = {
+            id: 'chair',
+            name: 'Chair',
+            image: await createTestImage(100, 100, '#aa5500'),
+            point: null,
+            // Reaches past the left edge, as older boxes could.
+            box: { x: -0.2, y: 0.5, width: 0.4, height: 0.3, rotation: 10 },
+            dimensions: null,
+        };
+
+        const result = await redesignRoom({ imageToProcess: scene, originalWidth: 800, originalHeight: 600, userPrompt: 'Add a chair', products: [product] });
+
+        expect(result.finalPrompt).toContain('**0% to 20% from the left edge**');
+        expect(result.finalPrompt).toContain('turned **10 degrees clockwise**');
+        expect(result.finalPrompt).toContain('**Placement guide:** The third image');
+    });
+
+    it('does not flag a background swap as drift', async () => {
+        const scene = await createTestImage(800, 600);
+        const background = await createTestImage(800, 600, '#4477cc');
+
+        const result = await redesignRoom({ imageToProcess: scene, originalWidth: 800, originalHeight: 600, userPrompt: 'Put the house on a beach', backgroundImage: background });
+
+        // A new background changes the whole frame, so there is no fidelity to measure.
+        expect(result.fidelityScore).toBeNull();
+        expect(isLikelyDrift(result.fidelityScore)).toBe(false);
+    });
+
+    it('generates a rotated view', async () => {
+        const scene = await createTestImage(800, 600);
+        const move = { yaw: 45, elevation: 0, dolly: 0 };
+
+        const result = await generateRotatedView(scene, 800, 600, move, move);
+
+        expect(result.provider).toBe('mock');
+        expect(result.finalPrompt).toContain('45 degrees to the right');
+        expect(await getSize(result.finalImageUrl)).toEqual({ width: 800, height: 600 });
+    });
+});
+
+describe('getImageProvider', () => {
+    it.skipIf(!!process.env.API_KEY)('refuses to fall back to the mock when no API key is configured', () => {
+        saveSettings({ ...DEFAULT_SETTINGS, apiKey: '' });
+        setImageProvider(null);
+
+        expect(() => getImageProvider()).toThrow(MissingApiKeyError);
+    });
+});
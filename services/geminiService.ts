@@ -3,137 +3,126 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { getImageProvider, ImageProvider, ImageGenerationRequest, GeneratedImage } from './imageProvider';
+import { withRetry, isCancelledError, AttemptInfo } from '../utils/retry';
+import { toGenerationError } from './generationErrors';
+import { getSettings } from './settingsService';
+import { CameraPose, GenerationParameters, PlacedProduct, SceneBox, ScenePoint } from '../types';
+import { compositeWithMask } from '../utils/maskUtils';
+import { computeFidelityScore } from '../utils/imageCompare';
+import { restoreResolution } from '../utils/upscale';
+import { getModelInputLayout, createModelInput, cropToContent, ModelInputLayout, ContentBox } from '../utils/modelInput';
+import { clampBoxToScene, formatDimensions, getBoxCentre } from '../utils/products';
+import { createPlacementGuide } from '../utils/placementGuide';
+
+const MAX_ATTEMPTS = 3;
+// Temperature ceiling for strict retries of results that drifted from the source.
+const STRICT_MAX_TEMPERATURE = 0.4;
+
+export interface GenerationRequestOptions {
+    // Aborting this signal cancels the request, including any pending retries.
+    signal?: AbortSignal;
+    // Per-attempt time limit; defaults to the timeout in settings.
+    timeoutMs?: number;
+    // Called before every attempt so the UI can show retry progress.
+    onAttempt?: (info: AttemptInfo) => void;
+}
+
+export interface RedesignRequest {
+    // The room or scene to redesign: the original photo or a previous generation.
+    imageToProcess: File;
+    // The size of the original photo, used for the final crop and, if enabled in settings, as the output size.
+    originalWidth: number;
+    originalHeight: number;
+    // A text description of the desired design changes.
+    userPrompt: string;
+    // Products to add, each with an optional placement on the scene and real-world size.
+    // Products placed in a box are also drawn into a placement guide image.
+    products?: PlacedProduct[];
+    // A new background for the scene.
+    backgroundImage?: File | null;
+    // Binary mask the size of imageToProcess; only its white area may change in the result.
+    editMask?: File | null;
+    // Binary mask the size of imageToProcess; its white area is restored from imageToProcess after generation.
+    protectedMask?: File | null;
+    // Used to get distinct results when generating variations.
+    seed?: number;
+    // Insist harder on preserving the scene, for retrying a result that drifted from the source.
+    strict?: boolean;
+}
+
+// Helper to read the model parameters from settings; an explicit seed (e.g. for variations) wins over the saved one
+const resolveParameters = (seed?: number): GenerationParameters => {
+    const settings = getSettings();
+    return {
+        workingResolution: settings.workingResolution,
+        temperature: settings.temperature,
+        seed: seed ?? settings.seed,
+    };
+};
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-
-// Helper to crop a square image back to an original aspect ratio, removing padding.
-const cropToOriginalAspectRatio = (
-    imageDataUrl: string,
-    originalWidth: number,
-    originalHeight: number,
-    targetDimension: number
-): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.src = imageDataUrl;
-        img.onload = () => {
-            // Re-calculate the dimensions of the content area within the padded square image
-            const aspectRatio = originalWidth / originalHeight;
-            let contentWidth, contentHeight;
-            if (aspectRatio > 1) { // Landscape
-                contentWidth = targetDimension;
-                contentHeight = targetDimension / aspectRatio;
-            } else { // Portrait or square
-                contentHeight = targetDimension;
-                contentWidth = targetDimension * aspectRatio;
-            }
-
-            // Calculate the top-left offset of the content area
-            const x = (targetDimension - contentWidth) / 2;
-            const y = (targetDimension - contentHeight) / 2;
-
-            const canvas = document.createElement('canvas');
-            // Set canvas to the final, un-padded dimensions
-            canvas.width = contentWidth;
-            canvas.height = contentHeight;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context for cropping.'));
-            }
-            
-            // Draw the relevant part of the square generated image onto the new, smaller canvas
-            ctx.drawImage(img, x, y, contentWidth, contentHeight, 0, 0, contentWidth, contentHeight);
-            
-            // Return the data URL of the newly cropped image
-            resolve(canvas.toDataURL('image/jpeg', 0.95));
-        };
-        img.onerror = (err) => reject(new Error(`Image load error during cropping: ${err}`));
-    });
+// Helper to call the provider with a timeout and automatic retries for transient failures.
+// Failures that remain after retrying are rethrown as a GenerationError subclass.
+const generateWithRetry = async (
+    provider: ImageProvider,
+    request: Omit<ImageGenerationRequest, 'signal'>,
+    { signal, timeoutMs = getSettings().timeoutSeconds * 1000, onAttempt }: GenerationRequestOptions,
+): Promise<GeneratedImage> => {
+    try {
+        return await withRetry(
+            attemptSignal => provider.generateImage({ ...request, signal: attemptSignal }),
+            { maxAttempts: MAX_ATTEMPTS, timeoutMs, signal, onAttempt },
+        );
+    } catch (error) {
+        if (isCancelledError(error)) throw error;
+        throw toGenerationError(error);
+    }
 };
 
+// Helper to tell the model about the mirrored padding around a photo, if the photo needed any
+const describePadding = (layout: ModelInputLayout): string => layout.isPadded
+    ? `\n-   **Ignore Padding:** The photo does not fill the whole image; the blurred, mirrored strips along its edges are padding, not part of the scene. Do not add new content to them.`
+    : '';
 
-// New resize logic inspired by the reference to enforce a consistent aspect ratio without cropping.
-// It resizes the image to fit within a square and adds padding, ensuring a consistent
-// input size for the AI model, which enhances stability.
-const resizeImage = (file: File, targetDimension: number): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = targetDimension;
-                canvas.height = targetDimension;
-
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context.'));
-                }
-
-                // Fill the canvas with a neutral background to avoid transparency issues
-                // and ensure a consistent input format for the model.
-                ctx.fillStyle = 'black';
-                ctx.fillRect(0, 0, targetDimension, targetDimension);
-
-                // Calculate new dimensions to fit inside the square canvas while maintaining aspect ratio
-                const aspectRatio = img.width / img.height;
-                let newWidth, newHeight;
-
-                if (aspectRatio > 1) { // Landscape image
-                    newWidth = targetDimension;
-                    newHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square image
-                    newHeight = targetDimension;
-                    newWidth = targetDimension * aspectRatio;
-                }
-
-                // Calculate position to center the image on the canvas
-                const x = (targetDimension - newWidth) / 2;
-                const y = (targetDimension - newHeight) / 2;
-                
-                // Draw the resized image onto the centered position
-                ctx.drawImage(img, x, y, newWidth, newHeight);
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve(new File([blob], file.name, {
-                            type: 'image/jpeg', // Force jpeg to handle padding color consistently
-                            lastModified: Date.now()
-                        }));
-                    } else {
-                        reject(new Error('Canvas to Blob conversion failed.'));
-                    }
-                }, 'image/jpeg', 0.95);
-            };
-            img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
-    });
+// Helper to name the part of the frame a point falls in, e.g. "lower left"
+const describeRegion = ({ x, y }: ScenePoint): string => {
+    const vertical = y < 1 / 3 ? 'upper' : y > 2 / 3 ? 'lower' : '';
+    const horizontal = x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : '';
+    return [vertical, horizontal].filter(Boolean).join(' ') || 'centre';
 };
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+// Helpers to convert a point or box on the photo to the canvas the model sees, which may be padded around the photo
+const toCanvasPoint = ({ x, y }: ScenePoint, content: ContentBox): ScenePoint => ({
+    x: content.x + x * content.width,
+    y: content.y + y * content.height,
+});
+const toCanvasBox = ({ x, y, width, height, rotation }: SceneBox, content: ContentBox): SceneBox => ({
+    ...toCanvasPoint({ x, y }, content),
+    width: width * content.width,
+    height: height * content.height,
+    rotation,
+});
+
+// Helper to write a fraction as a whole percentage
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Helper to describe where and how big one product should be drawn
+const describeProductPlacement = (product: PlacedProduct, content: ContentBox): string[] => {
+    const lines: string[] = [];
+    if (product.box) {
+        const sceneBox = clampBoxToScene(product.box);
+        const box = toCanvasBox(sceneBox, content);
+        const turn = Math.round(box.rotation);
+        const rotation = turn === 0 ? '' : `, turned **${Math.abs(turn)} degrees ${turn > 0 ? 'clockwise' : 'anticlockwise'}** around its centre`;
+        lines.push(`**Placement:** Fit it inside the area from **${percent(box.x)} to ${percent(box.x + box.width)} from the left edge** and **${percent(box.y)} to ${percent(box.y + box.height)} from the top edge** of the main image${rotation} (the ${describeRegion(getBoxCentre(sceneBox))} of the scene), filling most of that area. Its outline in the placement guide shows this area.`);
+    } else if (product.point) {
+        const point = toCanvasPoint(product.point, content);
+        lines.push(`**Placement:** Centre it at about **${percent(point.x)} from the left edge and ${percent(point.y)} from the top edge** of the main image (the ${describeRegion(product.point)} of the scene). Do not place it anywhere else.`);
+    }
+    if (product.dimensions) {
+        lines.push(`**Scale:** In real life it measures ${formatDimensions(product.dimensions)} (width × height${product.dimensions.depth !== null ? ' × depth' : ''}). Size it against nearby features of known size, such as doors (about 2 m / 80 in tall).`);
+    }
+    return lines;
 };
 
 // Helper to convert File to a data URL string
@@ -146,41 +135,54 @@ const fileToDataUrl = (file: File): Promise<string> => {
     });
 };
 
+// Helper to name an image by its position in the request, e.g. "second"
+const ordinal = (position: number) => ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'][position - 1] ?? `#${position}`;
+
 /**
  * Generates a new room design using a multi-modal AI model.
- * @param imageToProcess The file for the room/scene to be redesigned (could be original, sketched, or previously generated).
- * @param originalWidth The width of the very first user-uploaded image, used for final cropping.
- * @param originalHeight The height of the very first user-uploaded image, used for final cropping.
- * @param userPrompt A text description of the desired design changes.
- * @param productImage An optional file for a specific product to include in the design.
- * @param backgroundImage An optional file to use as a new background for the scene.
- * @param isSketched A boolean indicating if the imageToProcess contains a user sketch.
- * @returns A promise that resolves to an object containing the data URL of the generated image and debug info.
+ * @param request The scene to redesign, the size of the original photo, and what to change.
+ * @param options Optional cancellation signal, timeout and retry progress callback.
+ * @returns A promise that resolves to an object containing the lossless PNG data URL of the generated image, debug info, the provider, model and parameters used,
+ * and a fidelity score comparing the model's output to the source outside the edit mask and product boxes, or null when the background was replaced.
  */
 export const redesignRoom = async (
-    imageToProcess: File,
-    originalWidth: number,
-    originalHeight: number,
-    userPrompt: string,
-    productImage: File | null,
-    backgroundImage: File | null,
-    isSketched: boolean,
-): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; }> => {
+    request: RedesignRequest,
+    options: GenerationRequestOptions = {},
+): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; provider: string; model: string; parameters: GenerationParameters; fidelityScore: number | null; }> => {
+  const {
+      imageToProcess,
+      originalWidth,
+      originalHeight,
+      userPrompt,
+      products = [],
+      backgroundImage = null,
+      editMask = null,
+      protectedMask = null,
+      seed,
+      strict = false,
+  } = request;
   console.log('Starting room redesign process...');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+  const provider = getImageProvider();
   
-  // Define standard dimension for model inputs
-  const MAX_DIMENSION = 1024;
+  // The working resolution from settings is the standard dimension for model inputs
+  const parameters = resolveParameters(seed);
+  const { workingResolution } = parameters;
+  if (strict) {
+      // A low temperature keeps the model closer to its input.
+      parameters.temperature = Math.min(parameters.temperature ?? STRICT_MAX_TEMPERATURE, STRICT_MAX_TEMPERATURE);
+  }
   
-  // STEP 1: Prepare image by resizing
+  // STEP 1: Prepare image by resizing it to the closest aspect ratio the model supports
   console.log('Resizing room image...');
-  const resizedRoomImage = await resizeImage(imageToProcess, MAX_DIMENSION);
+  const layout = getModelInputLayout(originalWidth, originalHeight, workingResolution);
+  parameters.aspectRatio = layout.aspectRatio;
+  const resizedRoomImage = await createModelInput(imageToProcess, layout);
   const debugImageUrl = await fileToDataUrl(resizedRoomImage);
   
   // STEP 2: Generate composite image using the resized image and the prompt
   console.log('Preparing to generate new room design...');
 
-  const parts: ({ inlineData: { mimeType: string; data: string; }; } | { text: string; })[] = [await fileToPart(resizedRoomImage)];
+  const references: File[] = [];
   
   let prompt = `**Role and Goal:**
 You are an expert AI photo-editor specializing in realistic architectural and landscape modifications. Your task is to edit the provided image based on the user's instructions.
@@ -188,45 +190,70 @@ You are an expert AI photo-editor specializing in realistic architectural and la
 **Primary Directive: EDIT, DO NOT REPLACE.**
 This is your most important instruction. You must treat this as an image editing task, not an image generation task.
 -   **Preserve the Original:** Maintain the original image's composition, camera angle, lighting, and core structures.
--   **Do Not Alter:** Do not change the fundamental shape of the house, roofline, window placements, door placements, or any other element not explicitly mentioned in the user's request.
--   **Ignore Padding:** The base image may have black padding around it; this padding should be ignored and is not part of the scene to be edited.
+-   **Do Not Alter:** Do not change the fundamental shape of the house, roofline, window placements, door placements, or any other element not explicitly mentioned in the user's request.${describePadding(layout)}
 
 **User's Edit Instructions:**
 Apply the following changes to the image: "${userPrompt}"
 `;
   
-  if (isSketched) {
+  if (strict) {
+      prompt += `
+**Strict Fidelity Mode:**
+A previous attempt at this edit redrew the whole scene. This is not acceptable.
+-   Reproduce the original image pixel for pixel everywhere the user's instructions do not explicitly require a change.
+-   Make the smallest possible change that satisfies the instructions. Do not restyle, relight, recolor or reframe the image.
+`;
+  }
+
+  if (editMask) {
+      console.log('Adding edit mask to request...');
+      // The mask is padded exactly like the scene so the two line up pixel for pixel.
+      references.push(await createModelInput(editMask, layout, 'mask'));
       prompt += `
-**Critical Instruction: Sketch-Based Editing ONLY.**
-The user has provided a sketch on top of the image. This sketch indicates the *only* areas you are allowed to modify.
--   You MUST confine ALL edits *exclusively* to the areas indicated by the sketch.
--   Do NOT alter any other part of the image. The rest of the image must remain identical to the original.
--   The user's text prompt should be interpreted as instructions for *what* to do within the sketched areas. For example, if the prompt says "add a flowerbed" and the user has drawn a circle on the lawn, you must create the flowerbed only inside that circle.
--   Integrate these sketched elements realistically into the scene, matching the existing style and lighting.
+**Critical Instruction: Masked Editing ONLY.**
+The ${ordinal(references.length + 1)} image is a black-and-white edit mask with exactly the same framing as the main image.
+-   **White areas** mark the *only* regions you are allowed to modify. Confine ALL edits exclusively to them.
+-   **Black areas** must remain identical to the original image.
+-   The user's text prompt describes *what* to do inside the white regions. For example, if the prompt says "add a flowerbed" and the white region covers part of the lawn, create the flowerbed only there.
+-   Blend the edited regions seamlessly into their surroundings, matching the existing style, lighting and perspective.
+-   The mask is an instruction only. It must never appear in the output.
 `;
   }
 
-  if (productImage) {
-      console.log('Adding product image to request...');
-      parts.push(await fileToPart(productImage));
+  if (products.length > 0) {
+      console.log(`Adding ${products.length} product image(s) to request...`);
       prompt += `
 **Product Placement Instructions:**
-The user has provided a second image containing a specific element to add.
--   You MUST photorealistically integrate this exact element into the main scene.
--   Ensure the added element's scale, lighting, and perspective are seamlessly blended into the scene to look natural.
+The user has provided ${products.length === 1 ? 'an image of a specific element' : `${products.length} images of specific elements`} to add, each labelled below.
+-   You MUST photorealistically integrate ${products.length === 1 ? 'this exact element' : 'every one of these exact elements'} into the main scene${products.length > 1 ? ', each exactly once and each in its own place' : ''}.
+-   Ensure each added element's scale, lighting, and perspective are seamlessly blended into the scene to look natural.
+-   Use only the element itself from each image. Ignore any transparent, plain studio or other background around it, and any shadow it casts there.
+`;
+      products.forEach((product, index) => {
+          references.push(product.image);
+          const details = describeProductPlacement(product, layout.content).map(line => `    -   ${line}\n`).join('');
+          prompt += `-   **Product ${index + 1}: "${product.name}"** is the ${ordinal(references.length + 1)} image.
+${details}`;
+      });
+      if (products.some(product => product.box)) {
+          console.log('Adding placement guide to request...');
+          references.push(await createPlacementGuide(resizedRoomImage, layout, products));
+          prompt += `-   **Placement guide:** The ${ordinal(references.length + 1)} image is a dimmed copy of the main image with each product that has a set area drawn roughly in place, outlined and labelled with its number. Match each product's position, size and rotation to its outline, but render it properly into the scene with correct perspective, lighting and shadows. The guide is an instruction only: its dimming, outlines, numbers and rough cut-outs must never appear in the output.
 `;
+      }
   }
 
   if (backgroundImage) {
       console.log('Adding background image to request...');
-      parts.push(await fileToPart(backgroundImage));
+      references.push(backgroundImage);
+      const backgroundPosition = ordinal(references.length + 1);
       prompt += `
 **Critical Task: Background Replacement**
 The user has provided a new background image. Your primary task is to perform a professional-grade photo composition.
 
 **Image Roles:**
 -   **Main Image (first image):** Contains the primary subject (e.g., a house, a person, an object).
--   **Background Image (third image provided):** This is the new environment.
+-   **Background Image (${backgroundPosition} image provided):** This is the new environment.
 
 **Step-by-Step Composition Directive:**
 1.  **Isolate the Subject:** Accurately identify and isolate the main subject from the first image. Ignore its original background.
@@ -249,113 +276,147 @@ The user has provided a new background image. Your primary task is to perform a
 -   It should ONLY contain the modified image. No text, logos, or other artifacts.
 `;
 
-  const textPart = { text: prompt };
-  parts.push(textPart);
+  console.log(`Sending image(s) and prompt to the model (${provider.label})...`);
+
+  const { mimeType, data } = await generateWithRetry(provider, {
+    operation: 'edit',
+    image: resizedRoomImage,
+    references,
+    prompt,
+    aspectRatio: layout.aspectRatio,
+    seed: parameters.seed ?? undefined,
+    temperature: parameters.temperature ?? undefined,
+  }, options);
+
+  console.log(`Received image data (${mimeType}), length:`, data.length);
+  const generatedImageUrl = `data:${mimeType};base64,${data}`;
+
+  console.log('Cropping generated image to original aspect ratio...');
+  const croppedImageUrl = await cropToContent(generatedImageUrl, layout.content);
+
+  // STEP 3: Measure how much of the scene the model kept, before compositing hides any drift.
+  // A new background is meant to change the whole frame, so there is nothing to measure; the areas
+  // products were placed in are meant to change too, so they are left out like the edit area.
+  let fidelityScore: number | null = null;
+  if (!backgroundImage) {
+      try {
+          const boxes = products.flatMap(product => product.box ? [clampBoxToScene(product.box)] : []);
+          fidelityScore = await computeFidelityScore(imageToProcess, croppedImageUrl, { mask: editMask, boxes });
+          console.log('Fidelity score:', fidelityScore);
+      } catch (error) {
+          console.error('Could not compute the fidelity score:', error);
+      }
+  }
 
-  console.log('Sending image(s) and prompt to the model...');
-  
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
-
-  console.log('Received response from model.');
-  
-  const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  // STEP 4: Scale the result back to the size of the original photo, restoring the source's fine detail
+  // wherever the model left the scene unchanged
+  let finalImageUrl = croppedImageUrl;
+  if (getSettings().preserveResolution) {
+      console.log('Restoring the original resolution...');
+      finalImageUrl = await restoreResolution(croppedImageUrl, originalWidth, originalHeight, imageToProcess);
+  }
 
-  if (imagePartFromResponse?.inlineData) {
-    const { mimeType, data } = imagePartFromResponse.inlineData;
-    console.log(`Received image data (${mimeType}), length:`, data.length);
-    const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-    
-    console.log('Cropping generated image to original aspect ratio...');
-    const finalImageUrl = await cropToOriginalAspectRatio(
-        generatedSquareImageUrl,
-        originalWidth,
-        originalHeight,
-        MAX_DIMENSION
-    );
-    
-    return { finalImageUrl, debugImageUrl, finalPrompt: prompt };
+  // STEP 5: With masks, keep every pixel outside the edit area or inside a locked area from the source,
+  // whatever the model returned there
+  if (editMask || protectedMask) {
+      console.log('Compositing the generated image onto the source image...');
+      finalImageUrl = await compositeWithMask(imageToProcess, finalImageUrl, { editMask, protectedMask });
   }
 
-  console.error("Model response did not contain an image part.", response);
-  // FIX: Removed typo 'a' from 'throw a new Error'.
-  throw new Error("The AI model did not return an image. Please try again.");
+  return { finalImageUrl, debugImageUrl, finalPrompt: prompt, provider: provider.id, model: provider.model, parameters, fidelityScore };
+};
+
+// Helper to turn a camera move into step-by-step instructions for the model
+const describeCameraMove = (move: CameraPose, resultingElevation: number): string => {
+    const steps: string[] = [];
+    if (move.yaw !== 0) {
+        steps.push(`**Orbit:** Move the camera **${Math.abs(move.yaw)} degrees to the ${move.yaw < 0 ? 'left' : 'right'}** around the building, keeping it centred in the frame.`);
+    }
+    if (move.elevation !== 0) {
+        steps.push(move.elevation > 0
+            ? `**Elevation:** Raise the camera so it looks down on the scene from **${move.elevation} degrees higher** than the current view.`
+            : `**Elevation:** Lower the camera so it looks up at the scene from **${-move.elevation} degrees lower** than the current view.`);
+    }
+    if (move.dolly !== 0) {
+        steps.push(move.dolly > 0
+            ? `**Dolly:** Move the camera **${move.dolly}% closer** to the building, so it fills more of the frame.`
+            : `**Dolly:** Move the camera **${-move.dolly}% further away** from the building, revealing more of its surroundings.`);
+    }
+    if (resultingElevation >= 60) {
+        steps.push(`The resulting view is a **bird's-eye view**, looking almost straight down on the roof and grounds.`);
+    } else if (resultingElevation >= 25) {
+        steps.push(`The resulting view is an **aerial view**, as if taken from a drone.`);
+    } else if (move.elevation !== 0 && Math.abs(resultingElevation) < 10) {
+        steps.push(`The resulting view is at **street level**, as if taken by a person standing in front of the property.`);
+    }
+    return steps.map(step => `-   ${step}`).join('\n');
 };
 
 /**
- * Generates a new view of an existing design by rotating the camera perspective.
+ * Generates a new view of an existing design by moving the camera.
  * @param currentImage The file of the currently generated design.
  * @param originalWidth The width of the user's original uploaded photo.
  * @param originalHeight The height of the user's original uploaded photo.
- * @param direction The direction to rotate the view ('left' or 'right').
- * @returns A promise that resolves to an object containing the data URL of the new rotated image.
+ * @param move The camera move relative to the current view: orbit angle, elevation change and dolly.
+ * @param resultingPose The camera pose the move leads to, relative to the original photo, used to name the kind of view.
+ * @param options Optional cancellation signal, timeout and retry progress callback.
+ * @returns A promise that resolves to an object containing the lossless PNG data URL of the new rotated image, the prompt and the provider, model and parameters used.
  */
 export const generateRotatedView = async (
     currentImage: File,
     originalWidth: number,
     originalHeight: number,
-    direction: 'left' | 'right'
-): Promise<{ finalImageUrl: string; }> => {
-    console.log(`Generating rotated view to the ${direction}...`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    const MAX_DIMENSION = 1024;
+    move: CameraPose,
+    resultingPose: CameraPose,
+    options: GenerationRequestOptions = {},
+): Promise<{ finalImageUrl: string; finalPrompt: string; provider: string; model: string; parameters: GenerationParameters; }> => {
+    console.log('Generating new camera view...', move);
+    const provider = getImageProvider();
+    const parameters = resolveParameters();
+    const { workingResolution } = parameters;
     
-    // STEP 1: Resize the current image to fit the model's expected input
-    const resizedImage = await resizeImage(currentImage, MAX_DIMENSION);
-    const imagePart = await fileToPart(resizedImage);
+    // STEP 1: Resize the current image to the closest aspect ratio the model supports
+    const layout = getModelInputLayout(originalWidth, originalHeight, workingResolution);
+    parameters.aspectRatio = layout.aspectRatio;
+    const resizedImage = await createModelInput(currentImage, layout);
     
     // STEP 2: Create a specific prompt for the rotation task
     const prompt = `**Role and Goal:** You are an expert AI architectural visualizer. Your function is to generate a photorealistic rendering of a building from a different camera angle, maintaining absolute fidelity to the design shown in the input image.
 
-**Core Task: Incremental Camera Rotation**
-The input image is a single viewpoint of a building. Your task is to generate a new photorealistic image showing the *exact same building and its surroundings*, but with the camera viewpoint rotated **precisely 45 degrees to the ${direction}** from the current view.
+**Core Task: Incremental Camera Move**
+The input image is a single viewpoint of a building. Your task is to generate a new photorealistic image showing the *exact same building and its surroundings*, but with the camera moved precisely as follows from the current view:
+${describeCameraMove(move, resultingPose.elevation)}
 
 **Critical Directives for Continuity and Accuracy:**
--   **Treat Input as Ground Truth:** The provided image is the current state. Your output must be a direct continuation of this view. If the input image is already a rotated view, your task is to rotate it *further*.
+-   **Treat Input as Ground Truth:** The provided image is the current state. Your output must be a direct continuation of this view. If the input image is already a rotated view, your task is to move the camera *further*.
 -   **Unalterable Architecture:** The building's design, style, materials, textures, and colors are immutable. You MUST NOT alter any existing architectural elements (walls, rooflines, windows, doors, etc.).
--   **Realistic Extrapolation:** The primary challenge is to realistically render the parts of the building and environment that become visible after the 45-degree rotation. These newly visible sections MUST be a logical and consistent extension of the visible architecture. For example, a brick wall must continue as a brick wall. A window pattern should continue logically.
--   **Consistent Environment:** Maintain the identical lighting conditions (time of day, shadow direction), weather, and landscaping style from the input image. The world around the building does not change, only the camera's position.
--   **Ignore Padding:** The input image may have black padding. This is an artifact and must be completely ignored. It is not part of the scene.
+-   **Realistic Extrapolation:** The primary challenge is to realistically render the parts of the building and environment that become visible after the camera move. These newly visible sections MUST be a logical and consistent extension of the visible architecture. For example, a brick wall must continue as a brick wall. A window pattern should continue logically.
+-   **Consistent Environment:** Maintain the identical lighting conditions (time of day, shadow direction), weather, and landscaping style from the input image. The world around the building does not change, only the camera's position.${describePadding(layout)}
 
 **Final Output Requirements:**
--   The output MUST be a single, high-quality, photorealistic image of the building from the new 45-degree viewpoint.
+-   The output MUST be a single, high-quality, photorealistic image of the building from the new viewpoint.
 -   The image should be clean, without any text, watermarks, or other artifacts.
 -   Ensure the perspective shift is accurate and feels like a real camera movement.
 `;
-    const textPart = { text: prompt };
-
-    // STEP 3: Call the AI model
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+    // STEP 3: Call the image provider
+    const { mimeType, data } = await generateWithRetry(provider, {
+        operation: 'rotate',
+        image: resizedImage,
+        references: [],
+        prompt,
+        aspectRatio: layout.aspectRatio,
+        seed: parameters.seed ?? undefined,
+        temperature: parameters.temperature ?? undefined,
+    }, options);
 
     console.log('Received response from model for rotation.');
-    
-    // STEP 4: Process the response
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-        
-        // Crop the result back to the original aspect ratio
-        const finalImageUrl = await cropToOriginalAspectRatio(
-            generatedSquareImageUrl,
-            originalWidth,
-            originalHeight,
-            MAX_DIMENSION
-        );
-        return { finalImageUrl };
+
+    // STEP 4: Crop the result back to the original aspect ratio
+    let finalImageUrl = await cropToContent(`data:${mimeType};base64,${data}`, layout.content);
+
+    // STEP 5: Upscale to the size of the original photo. The view has moved, so no detail lines up with the input.
+    if (getSettings().preserveResolution) {
+        finalImageUrl = await restoreResolution(finalImageUrl, originalWidth, originalHeight, null);
     }
-    
-    console.error("Model response did not contain an image part for rotation.", response);
-    throw new Error("The AI model did not return an image for rotation.");
+    return { finalImageUrl, finalPrompt: prompt, provider: provider.id, model: provider.model, parameters };
 };
\ No newline at end of file
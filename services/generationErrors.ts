@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Broad failure classes, each with its own guidance in the UI.
+export type GenerationErrorKind =
+  | 'prompt-blocked'   // The request was rejected before generation (promptFeedback.blockReason)
+  | 'output-blocked'   // Generation stopped for safety or policy reasons (finishReason)
+  | 'incomplete'       // Generation stopped for any other non-STOP finishReason
+  | 'text-only'        // The model answered with text instead of an image
+  | 'no-image'         // The response contained nothing usable
+  | 'quota'            // Rate limit or quota exceeded
+  | 'invalid-key'      // The API key is missing, invalid or lacks permission
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  // Extra context from the model, such as a block reason or the text it returned.
+  readonly detail?: string;
+
+  constructor(kind: GenerationErrorKind, message: string, detail?: string) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+export class PromptBlockedError extends GenerationError {
+  readonly blockReason: string;
+
+  constructor(blockReason: string, detail?: string) {
+    super('prompt-blocked', `The request was blocked by the model's safety filters (${blockReason}).`, detail);
+    this.name = 'PromptBlockedError';
+    this.blockReason = blockReason;
+  }
+}
+
+// finishReason values that mean the output itself was withheld for safety or policy reasons.
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export class FinishReasonError extends GenerationError {
+  readonly finishReason: string;
+
+  constructor(finishReason: string, detail?: string) {
+    const isBlocked = BLOCKING_FINISH_REASONS.includes(finishReason);
+    super(
+      isBlocked ? 'output-blocked' : 'incomplete',
+      isBlocked
+        ? `The generated image was withheld by the model's safety filters (${finishReason}).`
+        : `The model stopped before producing an image (${finishReason}).`,
+      detail,
+    );
+    this.name = 'FinishReasonError';
+    this.finishReason = finishReason;
+  }
+}
+
+export class TextOnlyResponseError extends GenerationError {
+  constructor(text: string) {
+    super('text-only', 'The model replied with text instead of an image.', text);
+    this.name = 'TextOnlyResponseError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(detail?: string) {
+    super('quota', 'The API rate limit or quota has been exceeded.', detail);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(detail?: string) {
+    super('invalid-key', 'The API key was rejected.', detail);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// Thrown before any request is made when no API key is configured, rather than silently using the offline mock.
+export class MissingApiKeyError extends GenerationError {
+  constructor() {
+    super('invalid-key', 'No API key is configured.');
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+const INVALID_KEY_PATTERN = /API_KEY_INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota/i;
+
+/**
+ * Maps any failure from a generation request onto a GenerationError.
+ * Cancellations should be checked for before calling this, since they are not failures.
+ * @param error The value thrown by the provider or the retry wrapper.
+ * @returns A GenerationError describing the failure class.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new GenerationError('timeout', error.message);
+  }
+  // fetch reports network failures as a TypeError.
+  if (error instanceof TypeError) {
+    return new GenerationError('network', 'Could not reach the image service.', error.message);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || QUOTA_PATTERN.test(message)) {
+    return new QuotaExceededError(message);
+  }
+  if (status === 401 || status === 403 || INVALID_KEY_PATTERN.test(message)) {
+    return new InvalidApiKeyError(message);
+  }
+  if (typeof status === 'number' && status >= 500) {
+    return new GenerationError('server', `The image service returned an error (${status}).`, message);
+  }
+  return new GenerationError('unknown', message);
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { runGeneration } from './generationRunner';
+import { setImageProvider } from './imageProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { DEFAULT_SETTINGS, saveSettings } from './settingsService';
+import { GenerationInputs } from '../types';
+import { createTestImage, getSize } from '../test/images';
+
+describe('runGeneration with the offline mock provider', () => {
+    beforeEach(() => {
+        // The smallest working resolution keeps the pipeline quick.
+        saveSettings({ ...DEFAULT_SETTINGS, workingResolution: 512 });
+        setImageProvider(createMockProvider({ latencyMs: 0 }));
+    });
+
+    afterEach(() => {
+        setImageProvider(null);
+    });
+
+    it('records an edit with the inputs it was run from and its fidelity score', async () => {
+        const inputs: GenerationInputs = {
+            sourceImage: await createTestImage(800, 600),
+            userPrompt: 'Add a pergola',
+            products: [],
+            backgroundImage: null,
+            seed: 7,
+        };
+
+        const { node, debugImageUrl } = await runGeneration('edit', inputs, { width: 800, height: 600 }, 'parent');
+
+        expect(node.parentId).toBe('parent');
+        expect(node.file.type).toBe('image/png');
+        expect(await getSize(node.file)).toEqual({ width: 800, height: 600 });
+        expect(debugImageUrl).not.toBeNull();
+        const metadata = node.metadata!;
+        expect(metadata.operation).toBe('edit');
+        expect(metadata.inputs).toBe(inputs);
+        expect(metadata.provider).toBe('mock');
+        expect(metadata.finalPrompt).toContain('"Add a pergola"');
+        expect(metadata.parameters?.seed).toBe(7);
+        expect(metadata.resultSize).toEqual({ width: 800, height: 600, bytes: node.file.size });
+        expect(metadata.completedAt).toBeGreaterThanOrEqual(metadata.startedAt);
+        // Edits keep the view of their parent, so they carry no camera pose of their own.
+        expect(metadata.cameraPose).toBeUndefined();
+        expect(metadata.fidelityScore).toBeGreaterThanOrEqual(0);
+        expect(metadata.fidelityScore).toBeLessThanOrEqual(1);
+    });
+
+    it('leaves the fidelity score out of an edit that swaps the background', async () => {
+        const inputs: GenerationInputs = {
+            sourceImage: await createTestImage(800, 600),
+            userPrompt: 'Put the house on a beach',
+            backgroundImage: await createTestImage(800, 600, '#4477cc'),
+        };
+
+        const { node } = await runGeneration('edit', inputs, { width: 800, height: 600 }, null);
+
+        expect(node.parentId).toBeNull();
+        expect(node.metadata?.fidelityScore).toBeNull();
+    });
+
+    it('records a rotation with the camera pose its move leads to', async () => {
+        const inputs: GenerationInputs = {
+            sourceImage: await createTestImage(800, 600),
+            userPrompt: null,
+            backgroundImage: null,
+            cameraMove: { yaw: 45, elevation: 10, dolly: 0 },
+        };
+
+        const { node, debugImageUrl } = await runGeneration(
+            'rotate',
+            inputs,
+            { width: 800, height: 600 },
+            'parent',
+            {},
+            { yaw: 45, elevation: 0, dolly: 0 },
+        );
+
+        expect(node.parentId).toBe('parent');
+        expect(node.file.name.startsWith('rotated-scene-')).toBe(true);
+        expect(debugImageUrl).toBeNull();
+        const metadata = node.metadata!;
+        expect(metadata.operation).toBe('rotate');
+        expect(metadata.inputs).toBe(inputs);
+        expect(metadata.finalPrompt).toContain('45 degrees to the right');
+        expect(metadata.cameraPose).toEqual({ yaw: 90, elevation: 10, dolly: 0 });
+        // A new view has nothing to line up with its source, so no score is measured.
+        expect(metadata.fidelityScore).toBeUndefined();
+    });
+});
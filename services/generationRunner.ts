@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { redesignRoom, generateRotatedView, GenerationRequestOptions } from './geminiService';
+import { CameraPose, GenerationInputs, GenerationNode, GenerationOperation, GenerationParameters } from '../types';
+import { getImageDimensions } from '../utils/fileUtils';
+import { createGenerationNode } from '../utils/historyTree';
+import { getPlacedProducts } from '../utils/products';
+import { ZERO_CAMERA_POSE, addCameraPoses, getCameraMove } from '../utils/cameraPose';
+
+export interface GenerationRun {
+    node: GenerationNode;
+    debugImageUrl: string | null;
+}
+
+/**
+ * Runs a generation from recorded inputs and wraps the result as a tree node carrying its full provenance.
+ * Rotations are tagged with their camera pose, found by applying their move to the parent's pose.
+ * @param operation Whether to edit the scene or move the camera.
+ * @param inputs Everything the generation needs, recorded on the node so it can be run again.
+ * @param dimensions The size of the original photo.
+ * @param parentId The node the result branches from, or null for the original photo.
+ * @param options Cancellation and retry progress for the request.
+ * @param parentPose The camera pose of the parent node.
+ * @returns A promise that resolves to the new node, plus the debug image of the request when there is one.
+ */
+export const runGeneration = async (
+    operation: GenerationOperation,
+    inputs: GenerationInputs,
+    dimensions: { width: number; height: number },
+    parentId: string | null,
+    options: GenerationRequestOptions = {},
+    parentPose: CameraPose = ZERO_CAMERA_POSE,
+): Promise<GenerationRun> => {
+    const startedAt = Date.now();
+    const cameraPose = operation === 'rotate' ? addCameraPoses(parentPose, getCameraMove(inputs)) : undefined;
+    let result: { finalImageUrl: string; finalPrompt: string; provider: string; model: string; parameters: GenerationParameters; debugImageUrl?: string; fidelityScore?: number | null; };
+    if (operation === 'rotate') {
+        result = await generateRotatedView(
+            inputs.sourceImage,
+            dimensions.width,
+            dimensions.height,
+            getCameraMove(inputs),
+            cameraPose ?? ZERO_CAMERA_POSE,
+            options,
+        );
+    } else {
+        result = await redesignRoom({
+            imageToProcess: inputs.sourceImage,
+            originalWidth: dimensions.width,
+            originalHeight: dimensions.height,
+            userPrompt: inputs.userPrompt ?? '',
+            products: getPlacedProducts(inputs),
+            backgroundImage: inputs.backgroundImage,
+            editMask: inputs.mask,
+            protectedMask: inputs.protectedMask,
+            seed: inputs.seed,
+            strict: inputs.strict,
+        }, options);
+    }
+
+    // Results come back as lossless PNG so quality doesn't degrade as edits build on each other.
+    const blob = await (await fetch(result.finalImageUrl)).blob();
+    const extension = blob.type === 'image/png' ? 'png' : 'jpeg';
+    const fileName = `${operation === 'rotate' ? 'rotated' : 'generated'}-scene-${Date.now()}.${extension}`;
+    const file = new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+    const { width, height } = await getImageDimensions(file);
+
+    const node = createGenerationNode(file, parentId, {
+        operation,
+        inputs,
+        finalPrompt: result.finalPrompt,
+        provider: result.provider,
+        model: result.model,
+        parameters: result.parameters,
+        startedAt,
+        completedAt: Date.now(),
+        resultSize: { width, height, bytes: file.size },
+        cameraPose,
+        fidelityScore: result.fidelityScore,
+    });
+    return { node, debugImageUrl: result.debugImageUrl ?? null };
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { getSettings, getApiKey } from './settingsService';
+import { MissingApiKeyError } from './generationErrors';
+
+// The kinds of image jobs a provider can be asked to run. New operations are
+// added here so every provider has to decide how to handle them.
+export type ImageOperation = 'edit' | 'rotate';
+
+export interface ImageGenerationRequest {
+  operation: ImageOperation;
+  // The primary scene image, already resized for model input.
+  image: File;
+  // Additional reference images (product, background...), in prompt order.
+  references: File[];
+  prompt: string;
+  // Aspect ratio to generate, e.g. "4:3", matching the input image; omitted to let the model decide.
+  aspectRatio?: string;
+  // Optional seed so parallel requests for the same prompt produce distinct results.
+  seed?: number;
+  // Sampling temperature; omitted to use the model's default.
+  temperature?: number;
+  // Aborted when the user cancels or the attempt times out.
+  signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string; // Base64 encoded, without the data URL prefix
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  model: string;
+  generateImage: (request: ImageGenerationRequest) => Promise<GeneratedImage>;
+}
+
+let overrideProvider: ImageProvider | null = null;
+let defaultProvider: { key: string; provider: ImageProvider } | null = null;
+
+// Whether the build asks for the offline mock provider (IMAGE_PROVIDER=mock).
+const isMockConfigured = (): boolean => process.env.IMAGE_PROVIDER === 'mock';
+
+// Picks the provider from the build environment and the saved settings. The offline mock is only
+// used when asked for explicitly, so a build without a key fails loudly instead of returning fake results.
+const resolveDefaultProvider = (apiKey: string, model: string): ImageProvider => {
+  if (isMockConfigured()) {
+    return createMockProvider();
+  }
+  if (!apiKey) {
+    throw new MissingApiKeyError();
+  }
+  return createGeminiProvider(apiKey, model);
+};
+
+/**
+ * Returns the image provider used by the generation services.
+ * The default provider is rebuilt whenever the API key or model in settings changes.
+ * @returns The explicitly configured provider, or the default for the current settings.
+ * @throws MissingApiKeyError if no provider was set, the mock was not asked for and no API key is configured.
+ */
+export const getImageProvider = (): ImageProvider => {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+  const apiKey = getApiKey();
+  const { model } = getSettings();
+  const key = `${apiKey}|${model}`;
+  if (!defaultProvider || defaultProvider.key !== key) {
+    defaultProvider = { key, provider: resolveDefaultProvider(apiKey, model) };
+  }
+  return defaultProvider.provider;
+};
+
+/**
+ * Overrides the image provider, e.g. to inject a mock in tests.
+ * @param provider The provider to use, or null to restore the default.
+ */
+export const setImageProvider = (provider: ImageProvider | null): void => {
+  overrideProvider = provider;
+};
+
+/**
+ * Tells whether generations will come from the offline mock, without requiring an API key.
+ * @returns True when the mock was injected or asked for in the build environment.
+ */
+export const isUsingMockProvider = (): boolean => overrideProvider ? overrideProvider.id === 'mock' : isMockConfigured();
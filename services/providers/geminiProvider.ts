@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Modality, FinishReason } from "@google/genai";
+import type { ImageProvider, ImageGenerationRequest, GeneratedImage } from '../imageProvider';
+import { GenerationError, PromptBlockedError, FinishReasonError, TextOnlyResponseError } from '../generationErrors';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-image';
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+// Helper to explain why a response has no image, from the most to the least specific signal
+const getMissingImageError = (response: GenerateContentResponse, operation: ImageGenerationRequest['operation']): GenerationError => {
+    const { promptFeedback } = response;
+    if (promptFeedback?.blockReason) {
+        return new PromptBlockedError(promptFeedback.blockReason, promptFeedback.blockReasonMessage);
+    }
+
+    const candidate = response.candidates?.[0];
+    const text = candidate?.content?.parts?.map(part => part.text ?? '').join('').trim();
+    if (candidate?.finishReason && candidate.finishReason !== FinishReason.STOP) {
+        return new FinishReasonError(candidate.finishReason, candidate.finishMessage ?? text);
+    }
+    if (text) {
+        return new TextOnlyResponseError(text);
+    }
+    return new GenerationError(
+        'no-image',
+        operation === 'rotate' ? "The AI model did not return an image for rotation." : "The AI model did not return an image. Please try again.",
+    );
+};
+
+/**
+ * Creates a provider backed by the Gemini image model.
+ * @param apiKey The Gemini API key.
+ * @param model The image-capable model to call.
+ * @returns An ImageProvider that sends requests to the Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_MODEL): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const generateImage = async (request: ImageGenerationRequest): Promise<GeneratedImage> => {
+        const parts: ({ inlineData: { mimeType: string; data: string; }; } | { text: string; })[] = [await fileToPart(request.image)];
+        for (const reference of request.references) {
+            parts.push(await fileToPart(reference));
+        }
+        parts.push({ text: request.prompt });
+
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                imageConfig: request.aspectRatio ? { aspectRatio: request.aspectRatio } : undefined,
+                seed: request.seed,
+                temperature: request.temperature,
+                abortSignal: request.signal,
+            },
+        });
+
+        const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+        if (imagePartFromResponse?.inlineData?.data) {
+            const { mimeType, data } = imagePartFromResponse.inlineData;
+            return { mimeType: mimeType ?? 'image/png', data };
+        }
+
+        console.error(`Model response did not contain an image part (${request.operation}).`, response);
+        throw getMissingImageError(response, request.operation);
+    };
+
+    return { id: 'gemini', label: 'Gemini', model, generateImage };
+};
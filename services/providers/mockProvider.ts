@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider, ImageGenerationRequest, GeneratedImage } from '../imageProvider';
+import { sleep } from '../../utils/retry';
+
+interface MockProviderOptions {
+    // Simulated network latency so loading states stay visible.
+    latencyMs?: number;
+}
+
+// FNV-1a hash, used so the same prompt always produces the same tint.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Image load error in mock provider: ${err}`));
+        };
+        img.src = url;
+    });
+};
+
+
+/**
+ * Creates an offline provider that returns synthetic images without calling any API.
+ * The output is a tinted, labelled copy of the input, deterministic for a given request.
+ * @param options Optional behaviour such as simulated latency.
+ * @returns An ImageProvider that works without a network connection.
+ */
+export const createMockProvider = ({ latencyMs = 800 }: MockProviderOptions = {}): ImageProvider => {
+    const generateImage = async (request: ImageGenerationRequest): Promise<GeneratedImage> => {
+        if (latencyMs > 0) {
+            await sleep(latencyMs, request.signal);
+        }
+
+        const img = await loadImage(request.image);
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get canvas context for mock generation.');
+        }
+
+        // Rotations are mirrored so the result is visibly a different view.
+        if (request.operation === 'rotate') {
+            ctx.translate(canvas.width, 0);
+            ctx.scale(-1, 1);
+        }
+        ctx.drawImage(img, 0, 0);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+        const hash = hashString(`${request.operation}:${request.prompt}:${request.seed ?? ''}`);
+        const hue = hash % 360;
+        ctx.globalCompositeOperation = 'multiply';
+        ctx.fillStyle = `hsla(${hue}, 70%, 60%, 0.35)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+
+        // Label in the centre, which is always inside the unpadded content area.
+        const label = `MOCK ${request.operation.toUpperCase()} #${hash.toString(16).padStart(8, '0').slice(0, 6)}` +
+            (request.references.length > 0 ? ` +${request.references.length} ref` : '');
+        const fontSize = Math.max(14, Math.round(canvas.width / 32));
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const textWidth = ctx.measureText(label).width;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect((canvas.width - textWidth) / 2 - fontSize / 2, canvas.height / 2 - fontSize, textWidth + fontSize, fontSize * 2);
+        ctx.fillStyle = 'white';
+        ctx.fillText(label, canvas.width / 2, canvas.height / 2);
+
+        const dataUrl = canvas.toDataURL('image/png');
+        return { mimeType: 'image/png', data: dataUrl.split(',')[1] };
+    };
+
+    return { id: 'mock', label: 'Offline mock', model: 'mock-image-v1', generateImage };
+};
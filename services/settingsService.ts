@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface AppSettings {
+  // Overrides the key from the build environment when set.
+  apiKey: string;
+  model: string;
+  // Longest side of images sent to the model.
+  workingResolution: number;
+  // Scale results back to the size of the original photo instead of keeping the working resolution.
+  preserveResolution: boolean;
+  // null leaves the model's default in place.
+  temperature: number | null;
+  // Fixed seed for reproducible results; null picks a random one per request.
+  seed: number | null;
+  timeoutSeconds: number;
+}
+
+export const MODEL_SUGGESTIONS = ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'];
+export const WORKING_RESOLUTIONS = [512, 768, 1024, 1536, 2048];
+
+const SETTINGS_STORAGE_KEY = 'archidesigner-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  model: MODEL_SUGGESTIONS[0],
+  workingResolution: 1024,
+  preserveResolution: true,
+  temperature: null,
+  seed: null,
+  timeoutSeconds: Math.round((Number(process.env.GENERATION_TIMEOUT_MS) || 120_000) / 1000),
+};
+
+let cachedSettings: AppSettings | null = null;
+
+// Helper to drop stored values of the wrong type, e.g. from an older version of the settings
+const sanitizeSettings = (stored: Partial<Record<keyof AppSettings, unknown>>): AppSettings => {
+  const isNumberOrNull = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+  return {
+    apiKey: typeof stored.apiKey === 'string' ? stored.apiKey : DEFAULT_SETTINGS.apiKey,
+    model: typeof stored.model === 'string' && stored.model.trim() ? stored.model.trim() : DEFAULT_SETTINGS.model,
+    workingResolution: WORKING_RESOLUTIONS.includes(stored.workingResolution as number)
+      ? stored.workingResolution as number
+      : DEFAULT_SETTINGS.workingResolution,
+    preserveResolution: typeof stored.preserveResolution === 'boolean' ? stored.preserveResolution : DEFAULT_SETTINGS.preserveResolution,
+    temperature: isNumberOrNull(stored.temperature) ? stored.temperature as number | null : DEFAULT_SETTINGS.temperature,
+    seed: isNumberOrNull(stored.seed) ? stored.seed as number | null : DEFAULT_SETTINGS.seed,
+    timeoutSeconds: typeof stored.timeoutSeconds === 'number' && stored.timeoutSeconds > 0
+      ? stored.timeoutSeconds
+      : DEFAULT_SETTINGS.timeoutSeconds,
+  };
+};
+
+/**
+ * Returns the current settings, read from local storage on first use.
+ * @returns The saved settings, with defaults for anything not set.
+ */
+export const getSettings = (): AppSettings => {
+  if (!cachedSettings) {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      cachedSettings = stored ? sanitizeSettings(JSON.parse(stored)) : { ...DEFAULT_SETTINGS };
+    } catch (error) {
+      console.error("Failed to read settings, using defaults:", error);
+      cachedSettings = { ...DEFAULT_SETTINGS };
+    }
+  }
+  return cachedSettings;
+};
+
+/**
+ * Saves settings to local storage. They apply to the next generation request.
+ * @param settings The complete settings to store.
+ * @returns The settings as stored, after invalid values have been replaced by defaults.
+ */
+export const saveSettings = (settings: AppSettings): AppSettings => {
+  cachedSettings = sanitizeSettings(settings);
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(cachedSettings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+  return cachedSettings;
+};
+
+/**
+ * Returns the API key to use: the one entered in settings, or the build-time key.
+ * @returns The API key, or an empty string if none is configured.
+ */
+export const getApiKey = (): string => getSettings().apiKey.trim() || process.env.API_KEY || '';
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { hashBlob } from '../utils/blobRefs';
+
+const DB_NAME = 'ArchiDesignerDB';
+
+// Helper to wrap an IndexedDB request in a promise
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Helper to open the database at a version, creating the version 1 layout when asked
+const openDatabase = (version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, version);
+    req.onupgradeneeded = () => upgrade?.(req.result);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Helper to read every key of a store
+const getKeys = async (db: IDBDatabase, storeName: string) =>
+    request(db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys());
+
+const createFile = (content: string, lastModified: number) => new File([content], `${content}.png`, { type: 'image/png', lastModified });
+
+describe('storage migration from version 1', () => {
+    beforeEach(() => {
+        // Every test starts from an empty database and a storage module that hasn't opened it yet.
+        globalThis.indexedDB = new IDBFactory();
+        vi.resetModules();
+    });
+
+    it('moves whole sessions into the session and blob stores and prunes images nobody references', async () => {
+        const sharedScene = createFile('scene', 1000);
+        const firstResult = createFile('first-result', 2000);
+        const secondResult = createFile('second-result', 3000);
+        const legacyDb = await openDatabase(1, db => db.createObjectStore('sessions', { keyPath: 'id' }));
+        const transaction = legacyDb.transaction('sessions', 'readwrite');
+        // Version 1 sessions kept their images inline and their history as a flat list of files.
+        transaction.objectStore('sessions').put({ id: 'a', name: 'Front yard', timestamp: 1, thumbnail: 'data:,a', sceneImage: sharedScene, originalDimensions: { width: 4, height: 3 }, generations: [firstResult] });
+        transaction.objectStore('sessions').put({ id: 'b', name: 'Back yard', timestamp: 2, thumbnail: 'data:,b', sceneImage: sharedScene, originalDimensions: { width: 4, height: 3 }, generations: [secondResult] });
+        await new Promise(resolve => { transaction.oncomplete = resolve; });
+        legacyDb.close();
+
+        const storage = await import('./storageService');
+        const summaries = await storage.loadSessionSummariesFromDB();
+
+        expect(summaries.map(s => s.id)).toEqual(['b', 'a']);
+        const db = await openDatabase();
+        expect(db.version).toBe(3);
+        expect(Array.from(db.objectStoreNames).sort()).toEqual(['blobs', 'legacySessions', 'products', 'sessions']);
+        // Each session leaves the legacy store as it is migrated.
+        expect(await getKeys(db, 'legacySessions')).toEqual([]);
+        // The scene both sessions share is stored once.
+        const [sceneHash, firstHash, secondHash] = await Promise.all([hashBlob(sharedScene), hashBlob(firstResult), hashBlob(secondResult)]);
+        expect((await getKeys(db, 'blobs')).sort()).toEqual([sceneHash, firstHash, secondHash].sort());
+
+        const migrated = await storage.loadSessionFromDB('a');
+        expect(migrated?.name).toBe('Front yard');
+        expect(await migrated?.sceneImage.text()).toBe('scene');
+        expect(migrated?.generations).toHaveLength(1);
+        expect(migrated?.generations[0].parentId).toBeNull();
+        expect(await migrated?.generations[0].file.text()).toBe('first-result');
+
+        // An image left behind by an interrupted write, and the images only the deleted session used, are removed.
+        const orphanWrite = db.transaction('blobs', 'readwrite');
+        orphanWrite.objectStore('blobs').put(new Blob(['orphan']), 'orphan-hash');
+        await new Promise(resolve => { orphanWrite.oncomplete = resolve; });
+        db.close();
+        await storage.deleteSessionFromDB('b');
+
+        const afterDelete = await openDatabase();
+        expect((await getKeys(afterDelete, 'blobs')).sort()).toEqual([sceneHash, firstHash].sort());
+        expect(await getKeys(afterDelete, 'sessions')).toEqual(['a']);
+        afterDelete.close();
+    });
+
+    it('creates the current stores for a new database', async () => {
+        const storage = await import('./storageService');
+
+        expect(await storage.loadSessionSummariesFromDB()).toEqual([]);
+        const db = await openDatabase();
+        expect(Array.from(db.objectStoreNames).sort()).toEqual(['blobs', 'products', 'sessions']);
+        db.close();
+    });
+});
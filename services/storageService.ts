@@ -3,92 +3,317 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { DesignSession } from '../types';
+import { DesignSession, SessionSummary, Product } from '../types';
+import { normalizeGenerations } from '../utils/historyTree';
+import { createThumbnail, dataURLtoFile } from '../utils/fileUtils';
+import { serializeValue, deserializeValue, collectBlobRefs } from '../utils/blobRefs';
 
 const DB_NAME = 'ArchiDesignerDB';
-const DB_VERSION = 1;
+// Version history:
+// 1 - a single 'sessions' store holding whole DesignSession objects, images included.
+// 2 - 'sessions' holds metadata only; images live in 'blobs', keyed by the SHA-256 of their content.
+// 3 - adds 'products', the product library shared by all sessions.
+const DB_VERSION = 3;
 const SESSIONS_STORE_NAME = 'sessions';
+const BLOBS_STORE_NAME = 'blobs';
+// Products keep their image inline, since 'blobs' is pruned down to what sessions reference.
+const PRODUCTS_STORE_NAME = 'products';
+// The version 1 store is renamed during the upgrade and drained by migrateLegacySessions.
+const LEGACY_SESSIONS_STORE_NAME = 'legacySessions';
+// Thumbnails longer than this are full-resolution images from older versions.
+const MAX_THUMBNAIL_LENGTH = 64 * 1024;
+
+// A DesignSession with every File replaced by a StoredBlobRef.
+type StoredSession = Record<string, unknown> & { id: string; timestamp: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Writes for the same session are chained so an older save can never land after a newer one.
+const writeQueues = new Map<string, Promise<void>>();
 
 function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!window.indexedDB) {
+          return reject(new Error("IndexedDB is not supported by this browser."));
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => {
+        console.error("IndexedDB error:", request.error);
+        reject(request.error);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+        if (event.oldVersion === 1 && db.objectStoreNames.contains(SESSIONS_STORE_NAME)) {
+          // Keep the version 1 data untouched until each session has been re-saved in the new layout.
+          transaction.objectStore(SESSIONS_STORE_NAME).name = LEGACY_SESSIONS_STORE_NAME;
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE_NAME)) {
+          db.createObjectStore(SESSIONS_STORE_NAME, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE_NAME)) {
+          db.createObjectStore(BLOBS_STORE_NAME);
+        }
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE_NAME)) {
+          db.createObjectStore(PRODUCTS_STORE_NAME, { keyPath: 'id' });
+        }
+      };
+    }).then(async db => {
+      await migrateLegacySessions(db);
+      return db;
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
   return new Promise((resolve, reject) => {
-    if (!window.indexedDB) {
-        return reject(new Error("IndexedDB is not supported by this browser."));
-    }
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onerror = () => {
-      console.error("IndexedDB error:", request.error);
-      reject(request.error);
-    };
     request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(SESSIONS_STORE_NAME)) {
-        db.createObjectStore(SESSIONS_STORE_NAME, { keyPath: 'id' });
-      }
-    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
   });
+};
+
+// Queues a blob write inside an open transaction, skipping content that is already stored.
+const putBlobIfMissing = (blobStore: IDBObjectStore, hash: string, blob: Blob) => {
+  const request = blobStore.getKey(hash);
+  request.onsuccess = () => {
+    if (request.result === undefined) {
+      blobStore.put(blob, hash);
+    }
+  };
+};
+
+const writeSession = async (db: IDBDatabase, session: DesignSession, extraStores: string[] = [], onTransaction?: (transaction: IDBTransaction) => void) => {
+  const blobs = new Map<string, Blob>();
+  const record = await serializeValue(session, blobs) as StoredSession;
+
+  const transaction = db.transaction([SESSIONS_STORE_NAME, BLOBS_STORE_NAME, ...extraStores], 'readwrite');
+  const blobStore = transaction.objectStore(BLOBS_STORE_NAME);
+  blobs.forEach((blob, hash) => putBlobIfMissing(blobStore, hash, blob));
+  transaction.objectStore(SESSIONS_STORE_NAME).put(record);
+  onTransaction?.(transaction);
+  await transactionToPromise(transaction);
+};
+
+const enqueueWrite = (sessionId: string, write: () => Promise<void>): Promise<void> => {
+  const previous = writeQueues.get(sessionId) ?? Promise.resolve();
+  const next = previous.then(write, write);
+  writeQueues.set(sessionId, next);
+  next.finally(() => {
+    if (writeQueues.get(sessionId) === next) {
+      writeQueues.delete(sessionId);
+    }
+  }).catch(() => undefined);
+  return next;
+};
+
+// Moves version 1 sessions into the new stores one at a time. Each session is written and removed
+// from the legacy store in a single transaction, so an interrupted migration resumes on next open.
+async function migrateLegacySessions(db: IDBDatabase): Promise<void> {
+  if (!db.objectStoreNames.contains(LEGACY_SESSIONS_STORE_NAME)) return;
+
+  const keys = await requestToPromise(
+    db.transaction(LEGACY_SESSIONS_STORE_NAME, 'readonly').objectStore(LEGACY_SESSIONS_STORE_NAME).getAllKeys()
+  );
+  if (keys.length > 0) {
+    console.log(`Migrating ${keys.length} session(s) to storage version ${DB_VERSION}...`);
+  }
+  for (const key of keys) {
+    const legacySession = await requestToPromise(
+      db.transaction(LEGACY_SESSIONS_STORE_NAME, 'readonly').objectStore(LEGACY_SESSIONS_STORE_NAME).get(key)
+    ) as DesignSession | undefined;
+    if (!legacySession) continue;
+    await writeSession(db, legacySession, [LEGACY_SESSIONS_STORE_NAME], transaction => {
+      transaction.objectStore(LEGACY_SESSIONS_STORE_NAME).delete(key);
+    });
+  }
 }
 
 /**
- * Saves all design sessions to IndexedDB.
- * This function overwrites all existing data with the provided sessions.
- * @param sessions - The array of DesignSession objects to save.
+ * Inserts or updates a single design session.
+ * Images are stored once per unique content, so unchanged generations are not rewritten.
+ * @param session - The DesignSession to save.
+ */
+export const saveSessionToDB = (session: DesignSession): Promise<void> => {
+    return enqueueWrite(session.id, async () => {
+        try {
+            const db = await openDB();
+            await writeSession(db, session);
+        } catch (error) {
+            console.error(`Failed to save session ${session.id} to IndexedDB:`, error);
+        }
+    });
+};
+
+/**
+ * Deletes a single design session and any images no other session references.
+ * @param sessionId - The id of the session to delete.
  */
-export const saveSessionsToDB = async (sessions: DesignSession[]): Promise<void> => {
+export const deleteSessionFromDB = (sessionId: string): Promise<void> => {
+    return enqueueWrite(sessionId, async () => {
+        try {
+            const db = await openDB();
+            const transaction = db.transaction(SESSIONS_STORE_NAME, 'readwrite');
+            transaction.objectStore(SESSIONS_STORE_NAME).delete(sessionId);
+            await transactionToPromise(transaction);
+            await pruneOrphanBlobs(db);
+        } catch (error) {
+            console.error(`Failed to delete session ${sessionId} from IndexedDB:`, error);
+        }
+    });
+};
+
+// Removes stored images that no session references any more.
+async function pruneOrphanBlobs(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([SESSIONS_STORE_NAME, BLOBS_STORE_NAME], 'readwrite');
+    const blobStore = transaction.objectStore(BLOBS_STORE_NAME);
+    const [records, blobKeys] = await Promise.all([
+        requestToPromise(transaction.objectStore(SESSIONS_STORE_NAME).getAll()),
+        requestToPromise(blobStore.getAllKeys()),
+    ]);
+    const referenced = new Set<string>();
+    records.forEach(record => collectBlobRefs(record, referenced));
+    blobKeys.forEach(key => {
+        if (!referenced.has(key as string)) {
+            blobStore.delete(key);
+        }
+    });
+    await transactionToPromise(transaction);
+}
+
+/**
+ * Loads the sidebar summaries of all design sessions, without any of their images.
+ * Thumbnails saved at full resolution by older versions are shrunk and written back.
+ * Orphaned images left behind by earlier edits are cleaned up afterwards.
+ * @returns A promise that resolves to an array of SessionSummary objects, newest first.
+ */
+export const loadSessionSummariesFromDB = async (): Promise<SessionSummary[]> => {
     try {
         const db = await openDB();
-        const transaction = db.transaction(SESSIONS_STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(SESSIONS_STORE_NAME);
-
-        // A single transaction for both clearing and adding is more atomic.
-        store.clear(); 
-        sessions.forEach(session => {
-            store.put(session);
-        });
-
-        return new Promise((resolve, reject) => {
-            transaction.oncomplete = () => {
-                resolve();
-            };
-            transaction.onerror = () => {
-                console.error("Save transaction error:", transaction.error);
-                reject(transaction.error);
+        const records = await requestToPromise(
+            db.transaction(SESSIONS_STORE_NAME, 'readonly').objectStore(SESSIONS_STORE_NAME).getAll()
+        ) as StoredSession[];
+
+        const summaries = await Promise.all(records.map(async record => {
+            let thumbnail = record.thumbnail as string;
+            if (thumbnail && thumbnail.length > MAX_THUMBNAIL_LENGTH) {
+                try {
+                    thumbnail = await createThumbnail(dataURLtoFile(thumbnail, 'thumbnail'));
+                    const updatedRecord = { ...record, thumbnail };
+                    enqueueWrite(record.id, async () => {
+                        const transaction = db.transaction(SESSIONS_STORE_NAME, 'readwrite');
+                        transaction.objectStore(SESSIONS_STORE_NAME).put(updatedRecord);
+                        await transactionToPromise(transaction);
+                    }).catch(error => console.error(`Failed to store new thumbnail for session ${record.id}:`, error));
+                } catch (error) {
+                    console.error(`Failed to shrink thumbnail for session ${record.id}:`, error);
+                }
+            }
+            const summary: SessionSummary = {
+                id: record.id,
+                name: record.name as string,
+                timestamp: record.timestamp,
+                thumbnail,
             };
-        });
+            return summary;
+        }));
 
+        pruneOrphanBlobs(db).catch(error => console.error("Failed to prune unused images:", error));
+        // Sort sessions by timestamp, newest first, to maintain previous behavior.
+        return summaries.sort((a, b) => b.timestamp - a.timestamp);
     } catch (error) {
-        console.error("Failed to save sessions to IndexedDB:", error);
+        console.error("Failed to load sessions from IndexedDB:", error);
+        return [];
     }
 };
 
 /**
- * Loads all design sessions from IndexedDB.
- * @returns A promise that resolves to an array of DesignSession objects.
+ * Loads one design session from IndexedDB, including all of its images.
+ * @param sessionId - The id of the session to load.
+ * @returns A promise that resolves to the DesignSession, or null if it does not exist.
  */
-export const loadSessionsFromDB = async (): Promise<DesignSession[]> => {
+export const loadSessionFromDB = async (sessionId: string): Promise<DesignSession | null> => {
     try {
+        // Wait for pending writes so the freshest version of the record is read.
+        await writeQueues.get(sessionId)?.catch(() => undefined);
         const db = await openDB();
-        const transaction = db.transaction(SESSIONS_STORE_NAME, 'readonly');
-        const store = transaction.objectStore(SESSIONS_STORE_NAME);
-        const request = store.getAll();
-
-        return new Promise<DesignSession[]>((resolve, reject) => {
-            request.onsuccess = () => {
-                if (request.result) {
-                    // Sort sessions by timestamp, newest first, to maintain previous behavior.
-                    const sessions: DesignSession[] = request.result.sort((a, b) => b.timestamp - a.timestamp);
-                    resolve(sessions);
-                } else {
-                    resolve([]);
-                }
-            };
-            request.onerror = () => {
-                console.error("Failed to get all sessions:", request.error);
-                reject(request.error);
-            };
-        });
+        const transaction = db.transaction([SESSIONS_STORE_NAME, BLOBS_STORE_NAME], 'readonly');
+        const record = await requestToPromise(transaction.objectStore(SESSIONS_STORE_NAME).get(sessionId)) as StoredSession | undefined;
+        if (!record) return null;
+
+        const hashes = new Set<string>();
+        collectBlobRefs(record, hashes);
+        const blobStore = transaction.objectStore(BLOBS_STORE_NAME);
+        const blobs = new Map<string, Blob>();
+        await Promise.all(Array.from(hashes).map(async hash => {
+            const blob = await requestToPromise(blobStore.get(hash));
+            if (blob) blobs.set(hash, blob);
+        }));
+
+        // Sessions saved before branching history stored a flat list of files; upgrade them to a tree.
+        const session = deserializeValue(record, blobs) as DesignSession;
+        return { ...session, generations: normalizeGenerations(session.generations) };
     } catch (error) {
-        console.error("Failed to load sessions from IndexedDB:", error);
+        console.error(`Failed to load session ${sessionId} from IndexedDB:`, error);
+        return null;
+    }
+};
+
+/**
+ * Loads every product in the library.
+ * @returns A promise that resolves to the products, oldest first, or an empty array if they cannot be read.
+ */
+export const loadProductsFromDB = async (): Promise<Product[]> => {
+    try {
+        const db = await openDB();
+        const products = await requestToPromise(
+            db.transaction(PRODUCTS_STORE_NAME, 'readonly').objectStore(PRODUCTS_STORE_NAME).getAll()
+        ) as Product[];
+        return products.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+        console.error("Failed to load products from IndexedDB:", error);
         return [];
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Inserts or updates a product in the library.
+ * @param product - The product to save, image included.
+ */
+export const saveProductToDB = async (product: Product): Promise<void> => {
+    try {
+        const db = await openDB();
+        const transaction = db.transaction(PRODUCTS_STORE_NAME, 'readwrite');
+        transaction.objectStore(PRODUCTS_STORE_NAME).put(product);
+        await transactionToPromise(transaction);
+    } catch (error) {
+        console.error(`Failed to save product ${product.id} to IndexedDB:`, error);
+    }
+};
+
+/**
+ * Removes a product from the library. Generations that used it keep their own copy of the image.
+ * @param productId - The id of the product to delete.
+ */
+export const deleteProductFromDB = async (productId: string): Promise<void> => {
+    try {
+        const db = await openDB();
+        const transaction = db.transaction(PRODUCTS_STORE_NAME, 'readwrite');
+        transaction.objectStore(PRODUCTS_STORE_NAME).delete(productId);
+        await transactionToPromise(transaction);
+    } catch (error) {
+        console.error(`Failed to delete product ${productId} from IndexedDB:`, error);
+    }
+};
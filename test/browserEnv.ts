@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The parts of the browser the services and image utilities use, backed by a native canvas,
+// so generation pipelines can run end to end in Node.
+import 'fake-indexeddb/auto';
+import { Image as CanvasImage, createCanvas } from '@napi-rs/canvas';
+
+const objectUrls = new Map<string, Blob>();
+let nextObjectUrl = 0;
+
+URL.createObjectURL = (blob: Blob): string => {
+    const url = `blob:test/${nextObjectUrl++}`;
+    objectUrls.set(url, blob);
+    return url;
+};
+URL.revokeObjectURL = (url: string): void => {
+    objectUrls.delete(url);
+};
+
+// Helper to encode a blob as a data URL, the way FileReader.readAsDataURL does
+const toDataUrl = async (blob: Blob): Promise<string> =>
+    `data:${blob.type || 'application/octet-stream'};base64,${Buffer.from(await blob.arrayBuffer()).toString('base64')}`;
+
+// Loads object URLs from the registry above; the native image understands data URLs and buffers itself.
+class TestImage extends CanvasImage {}
+const nativeSrc = Object.getOwnPropertyDescriptor(CanvasImage.prototype, 'src')!;
+Object.defineProperty(TestImage.prototype, 'src', {
+    get(this: TestImage) {
+        return nativeSrc.get!.call(this);
+    },
+    set(this: TestImage, value: Uint8Array | string) {
+        if (typeof value === 'string' && value.startsWith('blob:')) {
+            const blob = objectUrls.get(value);
+            if (!blob) {
+                queueMicrotask(() => this.onerror?.(new Error(`Unknown object URL ${value}`)));
+                return;
+            }
+            blob.arrayBuffer().then(buffer => nativeSrc.set!.call(this, Buffer.from(buffer)));
+            return;
+        }
+        nativeSrc.set!.call(this, value);
+    },
+});
+
+class TestFileReader {
+    result: string | ArrayBuffer | null = null;
+    onload: ((event: { target: TestFileReader }) => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+
+    readAsDataURL(blob: Blob) {
+        toDataUrl(blob).then(result => this.finish(result), error => this.onerror?.(error));
+    }
+
+    readAsArrayBuffer(blob: Blob) {
+        blob.arrayBuffer().then(result => this.finish(result), error => this.onerror?.(error));
+    }
+
+    private finish(result: string | ArrayBuffer) {
+        this.result = result;
+        this.onload?.({ target: this });
+    }
+}
+
+const storage = new Map<string, string>();
+const testLocalStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, String(value)); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => storage.clear(),
+};
+
+Object.assign(globalThis, {
+    window: globalThis,
+    Image: TestImage,
+    FileReader: TestFileReader,
+    localStorage: testLocalStorage,
+    document: {
+        createElement: (tag: string) => {
+            if (tag !== 'canvas') {
+                throw new Error(`The test environment cannot create <${tag}> elements.`);
+            }
+            return createCanvas(300, 150);
+        },
+    },
+});
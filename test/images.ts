@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from '../utils/fileUtils';
+
+/**
+ * Draws a simple test photo: a flat colour with a darker block in the middle, so crops and flips are visible.
+ * @param width The width of the photo.
+ * @param height The height of the photo.
+ * @param color The background colour, as any CSS colour.
+ * @returns A promise that resolves to the photo as a PNG file.
+ */
+export const createTestImage = (width: number, height: number, color = '#8fbc8f'): Promise<File> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(width / 4, height / 4, width / 2, height / 2);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], 'scene.png', { type: 'image/png' }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
+
+// Helper to read the size of an image from a data URL or file
+export const getSize = async (source: Blob | string): Promise<{ width: number; height: number }> => {
+    const img = await loadImage(source);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+};
@@ -3,18 +3,148 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { AttemptInfo } from './utils/retry';
+
+export type ProductCategory = 'furniture' | 'lighting' | 'planter' | 'cladding' | 'other';
+
+// Real-world size of a product, so it can be drawn at a believable scale.
+export interface ProductDimensions {
+  width: number;
+  height: number;
+  depth: number | null;
+  unit: 'cm' | 'in';
+}
+
+// An item in the product library, kept across sessions.
 export interface Product {
-  id: number;
+  id: string;
+  name: string;
+  image: File;
+  category: ProductCategory;
+  tags: string[];
+  dimensions: ProductDimensions | null;
+  vendorUrl: string | null;
+  createdAt: number;
+}
+
+export type GenerationOperation = 'edit' | 'rotate';
+
+// The output of the sketch tool: where to edit, plus a tinted copy of the image for display.
+export interface EditMask {
+  mask: File;
+  preview: File;
+}
+
+// A camera position relative to a reference view. yaw orbits around the subject in degrees (positive to the right),
+// elevation raises the camera in degrees (positive looks down from higher up), and dolly is the percentage the
+// camera moves towards the subject (negative moves away).
+export interface CameraPose {
+  yaw: number;
+  elevation: number;
+  dolly: number;
+}
+
+// A point on the scene as fractions of its width and height, measured from the top-left corner.
+export interface ScenePoint {
+  x: number;
+  y: number;
+}
+
+// An area of the scene as fractions of its width and height; x and y are the top-left corner before rotation.
+export interface SceneBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise around the centre of the box, from -180 to 180
+}
+
+// A product to add in a generation, with where and how big to draw it.
+export interface PlacedProduct {
+  id: string;
   name: string;
-  imageUrl: string;
+  image: File;
+  point: ScenePoint | null; // Where the product was dropped; null lets the model choose
+  box: SceneBox | null; // Area the product should fill, when known; takes precedence over point
+  dimensions: ProductDimensions | null; // Real-world size, used as a scale hint
+}
+
+// Everything needed to run a generation again exactly as it was requested.
+export interface GenerationInputs {
+  sourceImage: File; // The image sent to the model
+  userPrompt: string | null;
+  products?: PlacedProduct[];
+  backgroundImage: File | null;
+  mask?: File | null; // Binary edit mask the size of sourceImage; white marks the area that may change
+  protectedMask?: File | null; // Binary mask of the session's locked areas; white is restored from sourceImage
+  cameraMove?: CameraPose; // Camera change requested by a rotate operation
+  seed?: number;
+  strict?: boolean; // Retried with stricter preservation after the first result drifted from the source
+}
+
+// Model settings in effect when a generation ran.
+export interface GenerationParameters {
+  workingResolution: number;
+  aspectRatio?: string; // Aspect ratio requested from the model; missing on generations padded to a square
+  temperature: number | null; // null when the model default was used
+  seed: number | null;
+}
+
+export interface GenerationMetadata {
+  operation: GenerationOperation;
+  inputs: GenerationInputs;
+  finalPrompt: string;
+  provider: string;
+  model: string;
+  parameters?: GenerationParameters; // Missing on generations made before settings existed
+  startedAt: number;
+  completedAt: number;
+  resultSize: { width: number; height: number; bytes: number };
+  cameraPose?: CameraPose; // Cumulative camera pose relative to the original photo, recorded for rotated views
+  fidelityScore?: number | null; // Similarity of the model output to the source outside the edit mask, from 0 to 1
+}
+
+export interface GenerationNode {
+  id: string;
+  parentId: string | null; // null when generated directly from the original scene
+  file: File;
+  createdAt: number;
+  metadata?: GenerationMetadata; // Absent for generations made before provenance was recorded
+}
+
+// An ordered walk-around of a design, made by chaining the same camera move from a start image.
+export interface TurntableSequence {
+  id: string;
+  createdAt: number;
+  stepMove: CameraPose; // Camera move between consecutive frames
+  startNodeId: string | null; // The first frame; null for the original scene
+  frameIds: string[]; // Generated frames in order, each made from the one before
 }
 
 export interface DesignSession {
   id: string;
   name: string;
   timestamp: number;
-  thumbnail: string; // Data URL
+  thumbnail: string; // Small JPEG data URL of the latest generation
   sceneImage: File;
   originalDimensions: { width: number; height: number };
-  generations: File[];
+  generations: GenerationNode[];
+  currentGenerationId?: string | null; // Position in the tree when the session was last used
+  candidates?: GenerationNode[]; // Variation results that were not promoted into the history
+  protectedMask?: File | null; // Locked areas painted with the protect brush, the size of sceneImage
+  turntables?: TurntableSequence[];
+}
+
+// The lightweight part of a session shown in the sidebar; images are loaded when the session is opened.
+export type SessionSummary = Pick<DesignSession, 'id' | 'name' | 'timestamp' | 'thumbnail'>;
+
+export interface VariationCandidate {
+  id: string;
+  status: 'pending' | 'done' | 'error';
+  node: GenerationNode | null;
+  error: string | null;
+  startedAt: number;
+  promoted: boolean;
+  parentId: string | null; // Generation the variation was made from
+  attempt?: AttemptInfo; // Retry progress while pending
 }
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Stands in for a File inside a serialized session (IndexedDB records, export bundles).
+export interface StoredBlobRef {
+    __blobRef: string; // SHA-256 of the content
+    name: string;
+    type: string;
+    lastModified: number;
+}
+
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+// Helper to compute the content address of a blob, cached per object since files are immutable
+export const hashBlob = (blob: Blob): Promise<string> => {
+    let hash = blobHashes.get(blob);
+    if (!hash) {
+        hash = blob.arrayBuffer()
+            .then(buffer => crypto.subtle.digest('SHA-256', buffer))
+            .then(digest => Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join(''));
+        blobHashes.set(blob, hash);
+    }
+    return hash;
+};
+
+export const isBlobRef = (value: unknown): value is StoredBlobRef => {
+    return !!value && typeof value === 'object' && typeof (value as StoredBlobRef).__blobRef === 'string';
+};
+
+// Helper to replace every File/Blob in a value with a reference, collecting the blobs by hash
+export const serializeValue = async (value: unknown, blobs: Map<string, Blob>): Promise<unknown> => {
+    if (value instanceof Blob) {
+        const hash = await hashBlob(value);
+        blobs.set(hash, value);
+        const ref: StoredBlobRef = {
+            __blobRef: hash,
+            name: value instanceof File ? value.name : '',
+            type: value.type,
+            lastModified: value instanceof File ? value.lastModified : 0,
+        };
+        return ref;
+    }
+    if (Array.isArray(value)) {
+        return Promise.all(value.map(item => serializeValue(item, blobs)));
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = await serializeValue(item, blobs);
+        }
+        return result;
+    }
+    return value;
+};
+
+// Helper to restore Files from references; blobs missing from the map resolve to empty files
+export const deserializeValue = (value: unknown, blobs: Map<string, Blob>): unknown => {
+    if (isBlobRef(value)) {
+        const blob = blobs.get(value.__blobRef);
+        if (!blob) {
+            console.error(`Missing image data for blob ${value.__blobRef}.`);
+        }
+        return new File([blob ?? new Blob()], value.name, { type: value.type, lastModified: value.lastModified });
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => deserializeValue(item, blobs));
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = deserializeValue(item, blobs);
+        }
+        return result;
+    }
+    return value;
+};
+
+// Helper to list the hashes of every blob referenced by a serialized value
+export const collectBlobRefs = (value: unknown, hashes: Set<string>) => {
+    if (isBlobRef(value)) {
+        hashes.add(value.__blobRef);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectBlobRefs(item, hashes));
+    } else if (value && typeof value === 'object') {
+        Object.values(value as Record<string, unknown>).forEach(item => collectBlobRefs(item, hashes));
+    }
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CameraPose, GenerationInputs, GenerationNode } from '../types';
+import { getPathToNode } from './historyTree';
+
+export const ZERO_CAMERA_POSE: CameraPose = { yaw: 0, elevation: 0, dolly: 0 };
+
+// Step of the quick rotate buttons, also assumed for records that only have a direction.
+export const ROTATE_STEP_DEGREES = 45;
+export const MIN_ELEVATION = -30;
+export const MAX_ELEVATION = 90;
+
+// Helper to wrap an angle into the range (-180, 180]
+const normalizeYaw = (yaw: number) => {
+    const wrapped = ((yaw % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+// Helper to combine a pose with a further camera move
+export const addCameraPoses = (pose: CameraPose, move: CameraPose): CameraPose => ({
+    yaw: normalizeYaw(pose.yaw + move.yaw),
+    elevation: Math.min(MAX_ELEVATION, Math.max(MIN_ELEVATION, pose.elevation + move.elevation)),
+    dolly: pose.dolly + move.dolly,
+});
+
+// Helper to check whether a pose or move leaves the camera where it was
+export const isZeroPose = (pose: CameraPose) => pose.yaw === 0 && pose.elevation === 0 && pose.dolly === 0;
+
+// Helper to get the camera move of a rotate operation
+export const getCameraMove = (inputs: GenerationInputs): CameraPose => inputs.cameraMove ?? ZERO_CAMERA_POSE;
+
+// Helper to work out the camera pose of a node (null being the original photo) relative to the original photo.
+// Edits keep the pose of the image they were made from; rotations add their move.
+export const getCameraPose = (nodes: GenerationNode[], nodeId: string | null): CameraPose => {
+    return getPathToNode(nodes, nodeId).reduce<CameraPose>((pose, node) => {
+        const metadata = node.metadata;
+        if (metadata?.cameraPose) return metadata.cameraPose;
+        return metadata?.operation === 'rotate' ? addCameraPoses(pose, getCameraMove(metadata.inputs)) : pose;
+    }, ZERO_CAMERA_POSE);
+};
+
+// Helper to describe a pose or move in words, e.g. "45° right, 30° higher, 20% closer"
+export const formatCameraPose = (pose: CameraPose): string => {
+    if (isZeroPose(pose)) return 'Original view';
+    const parts: string[] = [];
+    if (pose.yaw !== 0) parts.push(`${Math.abs(pose.yaw)}° ${pose.yaw < 0 ? 'left' : 'right'}`);
+    if (pose.elevation !== 0) parts.push(`${Math.abs(pose.elevation)}° ${pose.elevation < 0 ? 'lower' : 'higher'}`);
+    if (pose.dolly !== 0) parts.push(`${Math.abs(pose.dolly)}% ${pose.dolly < 0 ? 'further' : 'closer'}`);
+    return parts.join(', ');
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { findBackground, loadCutoutSource, paintCutoutEdits, renderCutout } from './cutout';
+import { createTestImage } from '../test/images';
+
+// The test photo is 200 × 100 with a dark product block covering x 50-150 and y 25-75.
+const loadTestSource = async () => loadCutoutSource(await createTestImage(200, 100));
+
+// Helper to read the alpha of one pixel of a rendered cutout
+const alphaAt = (canvas: HTMLCanvasElement, x: number, y: number) => canvas.getContext('2d')!.getImageData(x, y, 1, 1).data[3];
+
+describe('findBackground', () => {
+    it('marks the edge colour connected to the edges as background', async () => {
+        const source = await loadTestSource();
+
+        const background = findBackground(source, 32);
+
+        expect(background[10 * source.width + 10]).toBe(1);
+        expect(background[50 * source.width + 100]).toBe(0);
+    });
+});
+
+describe('renderCutout', () => {
+    it('leaves the background fully transparent around a feathered edge', async () => {
+        const source = await loadTestSource();
+        const background = findBackground(source, 32);
+        const canvas = document.createElement('canvas');
+
+        renderCutout(canvas, source, background, new Int8Array(background.length), 3);
+
+        // Just outside the product: no halo of the background colour.
+        expect(alphaAt(canvas, 48, 50)).toBe(0);
+        expect(alphaAt(canvas, 100, 23)).toBe(0);
+        // The edge fades inwards and the middle is solid.
+        expect(alphaAt(canvas, 50, 50)).toBeLessThan(128);
+        expect(alphaAt(canvas, 100, 50)).toBe(255);
+    });
+
+    it('applies brush edits over the automatic result', async () => {
+        const source = await loadTestSource();
+        const background = findBackground(source, 32);
+        const edits = new Int8Array(background.length);
+        paintCutoutEdits(edits, source.width, source.height, 10, 10, 5, 1);
+        paintCutoutEdits(edits, source.width, source.height, 100, 50, 5, -1);
+        const canvas = document.createElement('canvas');
+
+        renderCutout(canvas, source, background, edits, 0);
+
+        expect(alphaAt(canvas, 10, 10)).toBe(255);
+        expect(alphaAt(canvas, 100, 50)).toBe(0);
+    });
+});
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './fileUtils';
+
+// Longest side of a cutout; product references are sent to the model much smaller than this anyway.
+const CUTOUT_MAX_SIZE = 1024;
+
+// A product photo prepared for background removal, scaled down to the cutout size.
+export interface CutoutSource {
+    canvas: HTMLCanvasElement;
+    pixels: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+// Manual corrections painted over the automatic result: 1 keeps a pixel, -1 removes it, 0 leaves it to the automatic result.
+export type CutoutEdits = Int8Array;
+
+/**
+ * Loads a product photo for background removal.
+ * @param file The product photo.
+ * @returns A promise that resolves to the photo drawn at the cutout size, with its pixels.
+ */
+export const loadCutoutSource = async (file: File): Promise<CutoutSource> => {
+    const img = await loadImage(file);
+    const scale = Math.min(1, CUTOUT_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the cutout.');
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    return { canvas, pixels: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+// Helper to find the most common kind of colour around the edge of a photo, taken per channel as the median
+const getEdgeColor = ({ pixels, width, height }: CutoutSource): [number, number, number] => {
+    const channels: number[][] = [[], [], []];
+    const add = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) channels[c].push(pixels[i + c]);
+    };
+    for (let x = 0; x < width; x++) {
+        add(x, 0);
+        add(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        add(0, y);
+        add(width - 1, y);
+    }
+    return channels.map(values => values.sort((a, b) => a - b)[Math.floor(values.length / 2)]) as [number, number, number];
+};
+
+/**
+ * Finds the background of a product photo: every pixel close in colour to the photo's edges and connected to them.
+ * Studio and vendor photos have uniform or near-uniform backgrounds, so this separates most of them from the product;
+ * pixels that are already transparent always count as background.
+ * @param source The photo, from loadCutoutSource.
+ * @param tolerance The largest difference in any colour channel (0-255) from the edge colour that still counts as background.
+ * @returns One entry per pixel, 1 for background and 0 for the product.
+ */
+export const findBackground = (source: CutoutSource, tolerance: number): Uint8Array => {
+    const { pixels, width, height } = source;
+    const [r, g, b] = getEdgeColor(source);
+    const isBackground = (index: number) => {
+        const i = index * 4;
+        return pixels[i + 3] < 128 || Math.max(Math.abs(pixels[i] - r), Math.abs(pixels[i + 1] - g), Math.abs(pixels[i + 2] - b)) <= tolerance;
+    };
+
+    const background = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+    let tail = 0;
+    const visit = (index: number) => {
+        if (background[index] || !isBackground(index)) return;
+        background[index] = 1;
+        queue[tail++] = index;
+    };
+    for (let x = 0; x < width; x++) {
+        visit(x);
+        visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        visit(y * width);
+        visit(y * width + width - 1);
+    }
+    // Flood inwards from the edges, so product areas that happen to match the background colour are kept.
+    for (let head = 0; head < tail; head++) {
+        const index = queue[head];
+        const x = index % width;
+        if (x > 0) visit(index - 1);
+        if (x < width - 1) visit(index + 1);
+        if (index >= width) visit(index - width);
+        if (index < width * (height - 1)) visit(index + width);
+    }
+    return background;
+};
+
+/**
+ * Paints a circle of manual corrections into the edits, e.g. for one step of a refine brush stroke.
+ * @param edits The corrections so far, one entry per pixel; changed in place.
+ * @param width The width of the cutout.
+ * @param height The height of the cutout.
+ * @param x The centre of the circle, in cutout pixels.
+ * @param y The centre of the circle, in cutout pixels.
+ * @param radius The radius of the circle, in cutout pixels.
+ * @param value 1 to keep the pixels, -1 to remove them.
+ */
+export const paintCutoutEdits = (edits: CutoutEdits, width: number, height: number, x: number, y: number, radius: number, value: 1 | -1): void => {
+    const top = Math.max(0, Math.floor(y - radius));
+    const bottom = Math.min(height - 1, Math.ceil(y + radius));
+    const left = Math.max(0, Math.floor(x - radius));
+    const right = Math.min(width - 1, Math.ceil(x + radius));
+    for (let py = top; py <= bottom; py++) {
+        for (let px = left; px <= right; px++) {
+            if ((px - x) ** 2 + (py - y) ** 2 <= radius ** 2) edits[py * width + px] = value;
+        }
+    }
+};
+
+// Helper to shrink the kept area of a mask by a number of pixels in every direction (a square erosion).
+// Runs one pass per axis, counting removed pixels in a sliding window so the cost doesn't grow with the radius.
+const erodeMask = (keep: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+    const erodeLine = (input: Uint8Array, output: Uint8Array, start: number, step: number, length: number) => {
+        let removed = 0;
+        // Pixels past the ends of the line count as removed, so the product shrinks away from the photo's edges too.
+        for (let offset = -radius; offset < radius; offset++) {
+            if (offset < 0 || offset >= length || !input[start + offset * step]) removed++;
+        }
+        for (let position = 0; position < length; position++) {
+            const entering = position + radius;
+            if (entering >= length || !input[start + entering * step]) removed++;
+            output[start + position * step] = removed === 0 ? 1 : 0;
+            const leaving = position - radius;
+            if (leaving < 0 || !input[start + leaving * step]) removed--;
+        }
+    };
+    const horizontal = new Uint8Array(keep.length);
+    for (let y = 0; y < height; y++) erodeLine(keep, horizontal, y * width, 1, width);
+    const result = new Uint8Array(keep.length);
+    for (let x = 0; x < width; x++) erodeLine(horizontal, result, x, width, height);
+    return result;
+};
+
+// Helper to draw a 0/1 mask as the alpha channel of a canvas
+const drawMask = (keep: Uint8Array, width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the cutout mask.');
+    }
+    const maskData = ctx.createImageData(width, height);
+    const out = maskData.data;
+    for (let index = 0; index < keep.length; index++) {
+        out[index * 4 + 3] = keep[index] ? 255 : 0;
+    }
+    ctx.putImageData(maskData, 0, 0);
+    return canvas;
+};
+
+/**
+ * Draws the product without its background onto a canvas the size of the cutout.
+ * The edge is softened inwards only, so no pixel of the removed background shows through as a halo.
+ * @param target The canvas to draw on; it is resized to the cutout.
+ * @param source The photo, from loadCutoutSource.
+ * @param background The automatic background, from findBackground.
+ * @param edits Manual corrections, which take precedence over the automatic background.
+ * @param feather The width of the soft edge around the product, in cutout pixels.
+ */
+export const renderCutout = (target: HTMLCanvasElement, source: CutoutSource, background: Uint8Array, edits: CutoutEdits, feather: number): void => {
+    const { width, height } = source;
+    target.width = width;
+    target.height = height;
+    const ctx = target.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the cutout.');
+    }
+    const keep = new Uint8Array(background.length);
+    for (let index = 0; index < background.length; index++) {
+        keep[index] = (edits[index] === 0 ? !background[index] : edits[index] > 0) ? 1 : 0;
+    }
+
+    ctx.clearRect(0, 0, width, height);
+    if (feather > 0) {
+        // Blur a mask shrunk by twice the blur radius, so the blur fades out before reaching the product's edge,
+        // then clip to the product so nothing outside it stays even faintly visible.
+        ctx.filter = `blur(${feather}px)`;
+        ctx.drawImage(drawMask(erodeMask(keep, width, height, Math.ceil(feather * 2)), width, height), 0, 0);
+        ctx.filter = 'none';
+        ctx.globalCompositeOperation = 'destination-in';
+    }
+    ctx.drawImage(drawMask(keep, width, height), 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.drawImage(source.canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Saves a rendered cutout as a transparent PNG.
+ * @param canvas The canvas renderCutout drew on.
+ * @param name The file name, without an extension.
+ * @returns A promise that resolves to the PNG file.
+ */
+export const createCutoutFile = (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], `${name}.png`, { type: 'image/png', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
@@ -49,3 +49,60 @@ export const getImageDimensions = (file: File): Promise<{ width: number; height:
         reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
     });
 };
+
+// Helper to create a small JPEG data URL preview of an image, e.g. for sidebar thumbnails
+export const createThumbnail = (file: Blob, maxDimension: number = 160): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context for thumbnail.'));
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Image load error: ${err}`));
+        };
+        img.src = url;
+    });
+};
+
+// Helper to load an image from a Blob or URL
+export const loadImage = (source: Blob | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new Error(`Image load error: ${err}`));
+        };
+        img.src = url;
+    });
+};
+
+// Helper to draw an image onto a new canvas of the given size and read back its RGBA pixels
+export const readPixels = (img: CanvasImageSource, width: number, height: number, filter?: string): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context to read pixels.');
+    }
+    if (filter) ctx.filter = filter;
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
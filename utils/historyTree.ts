@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationNode, GenerationMetadata } from '../types';
+
+// Helper to create a new node in a session's generation tree
+export const createGenerationNode = (file: File, parentId: string | null, metadata?: GenerationMetadata): GenerationNode => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    parentId,
+    file,
+    createdAt: Date.now(),
+    metadata,
+});
+
+// Helper to list the direct children of a node (or of the original scene when parentId is null), oldest first
+export const getChildren = (nodes: GenerationNode[], parentId: string | null): GenerationNode[] => {
+    return nodes
+        .filter(n => n.parentId === parentId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Helper to get the chain of nodes from the original scene down to the given node
+export const getPathToNode = (nodes: GenerationNode[], nodeId: string | null): GenerationNode[] => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const path: GenerationNode[] = [];
+    const visited = new Set<string>();
+    let node = nodeId ? byId.get(nodeId) : undefined;
+    while (node && !visited.has(node.id)) {
+        visited.add(node.id);
+        path.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return path;
+};
+
+// Helper to check whether a node (null being the original scene) lies on the path to another node
+export const isAncestorOrSelf = (nodes: GenerationNode[], ancestorId: string | null, nodeId: string | null): boolean => {
+    if (ancestorId === null) return true;
+    return getPathToNode(nodes, nodeId).some(n => n.id === ancestorId);
+};
+
+// Helper to find the next node when walking from currentId towards the tip of the branch
+export const getNextOnBranch = (nodes: GenerationNode[], currentId: string | null, branchTipId: string | null): string | null => {
+    const path = getPathToNode(nodes, branchTipId);
+    if (currentId === null) return path[0]?.id ?? null;
+    const index = path.findIndex(n => n.id === currentId);
+    return index >= 0 && index < path.length - 1 ? path[index + 1].id : null;
+};
+
+// Helper to find the most recently created node at or below the given node
+export const getLatestDescendant = (nodes: GenerationNode[], nodeId: string | null): string | null => {
+    let latest: GenerationNode | null = null;
+    for (const node of nodes) {
+        if (isAncestorOrSelf(nodes, nodeId, node.id) && (!latest || node.createdAt > latest.createdAt)) {
+            latest = node;
+        }
+    }
+    return latest?.id ?? nodeId;
+};
+
+// Helper to upgrade sessions stored before branching history, where generations were a flat File[] undo stack
+export const normalizeGenerations = (generations: (GenerationNode | File)[]): GenerationNode[] => {
+    let parentId: string | null = null;
+    return generations.map((item, index) => {
+        if (!(item instanceof Blob)) {
+            return item;
+        }
+        const node: GenerationNode = {
+            id: `legacy-${index}-${item.lastModified}`,
+            parentId,
+            file: item,
+            createdAt: item.lastModified + index,
+        };
+        parentId = node.id;
+        return node;
+    });
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { computeFidelityScore, isLikelyDrift } from './imageCompare';
+import { loadImage } from './fileUtils';
+import { createTestImage } from '../test/images';
+
+// Helper to copy an image with stripes painted over its left half, a change the model was asked to make there
+const paintLeftHalf = async (source: File): Promise<string> => {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    for (let x = 0; x < canvas.width / 2; x += 6) {
+        ctx.fillStyle = (x / 6) % 2 ? '#ffffff' : '#000000';
+        ctx.fillRect(x, 0, 6, canvas.height);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+describe('computeFidelityScore', () => {
+    it('scores an unchanged image as identical', async () => {
+        const source = await createTestImage(200, 150);
+
+        expect(await computeFidelityScore(source, source)).toBeCloseTo(1, 2);
+    });
+
+    it('leaves the areas of product boxes out of the score', async () => {
+        const source = await createTestImage(200, 150);
+        const result = await paintLeftHalf(source);
+
+        const whole = await computeFidelityScore(source, result);
+        const outsideBox = await computeFidelityScore(source, result, { boxes: [{ x: 0, y: 0, width: 0.55, height: 1, rotation: 0 }] });
+
+        expect(whole).toBeLessThan(0.9);
+        expect(outsideBox).toBeCloseTo(1, 2);
+    });
+
+    it('leaves out the whole of a rotated box', async () => {
+        const source = await createTestImage(200, 150);
+        const result = await paintLeftHalf(source);
+        // Turned a quarter turn, a box 150 by 110 pixels covers the full height of the left half and a little more.
+        const box = { x: 55 / 200 - 0.375, y: 0.5 - 55 / 150, width: 150 / 200, height: 110 / 150, rotation: 90 };
+
+        const score = await computeFidelityScore(source, result, { boxes: [box] });
+
+        expect(score).toBeCloseTo(1, 2);
+        expect(isLikelyDrift(score)).toBe(false);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, readPixels } from './fileUtils';
+import { SceneBox } from '../types';
+
+// Images are compared on a small grid, which ignores compression noise and fine texture
+// and keeps the check fast enough to run after every generation.
+const COMPARE_DIMENSION = 128;
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+// Standard SSIM stabilising constants for 8-bit values.
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Results scoring below this were probably regenerated rather than edited.
+export const FIDELITY_WARNING_THRESHOLD = 0.5;
+
+// Helper to decide whether a recorded fidelity score should be flagged as drift
+export const isLikelyDrift = (score: number | null | undefined): boolean => score != null && score < FIDELITY_WARNING_THRESHOLD;
+
+// Helper to read an image's luminance at the given size
+const readLuminance = (img: CanvasImageSource, width: number, height: number): Float32Array => {
+    const pixels = readPixels(img, width, height);
+    const luminance = new Float32Array(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+        luminance[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+    }
+    return luminance;
+};
+
+// Areas of a generation that were meant to change, and so say nothing about whether the rest of the scene was kept.
+export interface FidelityIgnoreAreas {
+    mask?: Blob | null; // Binary mask; its white area is left out
+    boxes?: SceneBox[]; // Areas of the scene, as fractions of the image, that are left out, rotation included
+}
+
+// Helper to mark the pixels of a grid that fall inside any of the boxes
+const markBoxes = (ignored: Uint8Array, width: number, height: number, boxes: SceneBox[]) => {
+    for (const box of boxes) {
+        const halfWidth = box.width * width / 2;
+        const halfHeight = box.height * height / 2;
+        const centreX = (box.x + box.width / 2) * width;
+        const centreY = (box.y + box.height / 2) * height;
+        const angle = box.rotation * Math.PI / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const dx = x + 0.5 - centreX;
+                const dy = y + 0.5 - centreY;
+                // Turn the pixel back by the box's rotation, so the test is against an upright box.
+                if (Math.abs(dx * cos + dy * sin) <= halfWidth && Math.abs(dy * cos - dx * sin) <= halfHeight) {
+                    ignored[y * width + x] = 1;
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Measures how much of the source's structure survives in a generated image, using the mean
+ * structural similarity (SSIM) of small windows on a downscaled grid.
+ * @param source The image that was sent for editing.
+ * @param result The generated image, with the same aspect ratio as the source.
+ * @param ignore Areas that were meant to change; windows touching them are left out.
+ * @returns A promise that resolves to a score from 0 (unrelated) to 1 (identical), or null if the ignored areas leave nothing to compare.
+ */
+export const computeFidelityScore = async (source: Blob | string, result: Blob | string, ignore: FidelityIgnoreAreas = {}): Promise<number | null> => {
+    const [sourceImg, resultImg, maskImg] = await Promise.all([
+        loadImage(source),
+        loadImage(result),
+        ignore.mask ? loadImage(ignore.mask) : null,
+    ]);
+    const scale = COMPARE_DIMENSION / Math.max(sourceImg.naturalWidth, sourceImg.naturalHeight);
+    const width = Math.max(SSIM_WINDOW, Math.round(sourceImg.naturalWidth * scale));
+    const height = Math.max(SSIM_WINDOW, Math.round(sourceImg.naturalHeight * scale));
+
+    const a = readLuminance(sourceImg, width, height);
+    const b = readLuminance(resultImg, width, height);
+    const ignored = new Uint8Array(width * height);
+    if (maskImg) {
+        const maskPixels = readPixels(maskImg, width, height);
+        for (let i = 0; i < ignored.length; i++) {
+            if (maskPixels[i * 4] > 0) ignored[i] = 1;
+        }
+    }
+    if (ignore.boxes) markBoxes(ignored, width, height, ignore.boxes);
+
+    let total = 0;
+    let windows = 0;
+    const n = SSIM_WINDOW * SSIM_WINDOW;
+    for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_STEP) {
+        for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_STEP) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            let isMasked = false;
+            for (let wy = 0; wy < SSIM_WINDOW && !isMasked; wy++) {
+                for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+                    const i = (y + wy) * width + x + wx;
+                    if (ignored[i]) {
+                        isMasked = true;
+                        break;
+                    }
+                    sumA += a[i];
+                    sumB += b[i];
+                    sumAA += a[i] * a[i];
+                    sumBB += b[i] * b[i];
+                    sumAB += a[i] * b[i];
+                }
+            }
+            if (isMasked) continue;
+
+            const meanA = sumA / n;
+            const meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+            total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+                / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+            windows++;
+        }
+    }
+    return windows > 0 ? Math.max(0, total / windows) : null;
+};
+
+// Per-pixel difference between two images, as the largest change across the colour channels.
+export interface DifferenceMap {
+    width: number;
+    height: number;
+    values: Uint8Array;
+}
+
+/**
+ * Computes the per-pixel difference between two images of a session.
+ * @param before The reference image; the map has its aspect ratio.
+ * @param after The image to compare against it, scaled to the same size.
+ * @param maxDimension The longest side of the map. Small differences from compression are softened by a light blur.
+ * @returns A promise that resolves to the difference map, 0 for identical pixels and 255 for the largest change.
+ */
+export const computeDifferenceMap = async (before: Blob | string, after: Blob | string, maxDimension: number = 1024): Promise<DifferenceMap> => {
+    const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+    const scale = Math.min(1, maxDimension / Math.max(beforeImg.naturalWidth, beforeImg.naturalHeight));
+    const width = Math.max(1, Math.round(beforeImg.naturalWidth * scale));
+    const height = Math.max(1, Math.round(beforeImg.naturalHeight * scale));
+
+    const a = readPixels(beforeImg, width, height, 'blur(1px)');
+    const b = readPixels(afterImg, width, height, 'blur(1px)');
+    const values = new Uint8Array(width * height);
+    for (let i = 0; i < values.length; i++) {
+        const p = i * 4;
+        values[i] = Math.max(Math.abs(a[p] - b[p]), Math.abs(a[p + 1] - b[p + 1]), Math.abs(a[p + 2] - b[p + 2]));
+    }
+    return { width, height, values };
+};
+
+/**
+ * Renders a difference map as a heatmap, colouring changes from yellow (small) to red (large).
+ * @param map The difference map to render.
+ * @param threshold Differences at or below this value count as unchanged and are left transparent.
+ * @returns The heatmap pixels and the fraction of the frame above the threshold.
+ */
+export const renderHeatmap = (map: DifferenceMap, threshold: number): { image: ImageData; changedFraction: number } => {
+    const image = new ImageData(map.width, map.height);
+    const out = image.data;
+    let changed = 0;
+    for (let i = 0; i < map.values.length; i++) {
+        const value = map.values[i];
+        if (value <= threshold) continue;
+        changed++;
+        const strength = (value - threshold) / (255 - threshold || 1);
+        const p = i * 4;
+        out[p] = 255;
+        out[p + 1] = Math.round(220 * (1 - Math.min(1, strength * 2)));
+        out[p + 2] = 0;
+        out[p + 3] = 255;
+    }
+    return { image, changedFraction: map.values.length > 0 ? changed / map.values.length : 0 };
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { compositeWithMask } from './maskUtils';
+import { dataURLtoFile, loadImage } from './fileUtils';
+import { createTestImage, getSize } from '../test/images';
+
+// Helper to draw a mask that is white over the left half of the image
+const createLeftHalfMask = (width: number, height: number): File => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width / 2, height);
+    return dataURLtoFile(canvas.toDataURL('image/png'), 'mask.png');
+};
+
+// Helper to read the colour of one pixel of an image
+const pixelAt = async (source: string, x: number, y: number) => {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    return Array.from(ctx.getImageData(x, y, 1, 1).data.subarray(0, 3));
+};
+
+describe('compositeWithMask', () => {
+    it('composites at the size of the generated image, taking the source outside the edit area', async () => {
+        const source = await createTestImage(900, 600, '#ff0000');
+        const generated = URL.createObjectURL(await createTestImage(450, 300, '#0000ff'));
+
+        const result = await compositeWithMask(source, generated, { editMask: createLeftHalfMask(900, 600) });
+
+        expect(await getSize(result)).toEqual({ width: 450, height: 300 });
+        expect(await pixelAt(result, 20, 20)).toEqual([0, 0, 255]);
+        expect(await pixelAt(result, 430, 20)).toEqual([255, 0, 0]);
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, readPixels } from './fileUtils';
+
+// Width of the soft transition inside the mask edge, so edits blend into untouched pixels.
+const MASK_FEATHER_PX = 6;
+
+/**
+ * Converts the strokes on a drawing canvas into a binary edit mask: white where anything was painted, black elsewhere.
+ * @param strokes A canvas whose non-transparent pixels mark the area to edit.
+ * @param width The width of the mask, normally the natural width of the image being edited.
+ * @param height The height of the mask.
+ * @returns A promise that resolves to the mask as a PNG file, or null if nothing was painted.
+ */
+export const createBinaryMask = (strokes: HTMLCanvasElement, width: number, height: number): Promise<File | null> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        return Promise.reject(new Error('Could not get canvas context for the mask.'));
+    }
+    ctx.drawImage(strokes, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    let hasEdits = false;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = data[i + 3] > 0 ? 255 : 0;
+        hasEdits = hasEdits || value > 0;
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    if (!hasEdits) return Promise.resolve(null);
+    ctx.putImageData(imageData, 0, 0);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
+
+/**
+ * Combines a generated image with its source so that only the allowed area changes.
+ * The result has the size of the generated image: the restored resolution when preserveResolution is on,
+ * the model output's own otherwise. Pixels outside the edit mask, or inside the protected mask, are copied
+ * from the source resampled to that size.
+ * @param source The clean image that was edited.
+ * @param generatedImageUrl The model output, already cropped to the source's aspect ratio and scaled to the result size.
+ * @param masks Binary masks with the source's aspect ratio: the edit mask's white area may change,
+ * the protected mask's white area must not. Either may be omitted.
+ * @returns A promise that resolves to a lossless PNG data URL of the composited image.
+ */
+export const compositeWithMask = async (
+    source: File,
+    generatedImageUrl: string,
+    masks: { editMask?: File | null; protectedMask?: File | null },
+): Promise<string> => {
+    const { editMask, protectedMask } = masks;
+    const [sourceImg, generatedImg, editImg, protectedImg] = await Promise.all([
+        loadImage(source),
+        loadImage(generatedImageUrl),
+        editMask ? loadImage(editMask) : null,
+        protectedMask ? loadImage(protectedMask) : null,
+    ]);
+    const width = generatedImg.naturalWidth;
+    const height = generatedImg.naturalHeight;
+
+    const sourcePixels = readPixels(sourceImg, width, height);
+    const generatedPixels = readPixels(generatedImg, width, height);
+    const blur = `blur(${MASK_FEATHER_PX / 2}px)`;
+    const hardEdit = editImg && readPixels(editImg, width, height);
+    const softEdit = editImg && readPixels(editImg, width, height, blur);
+    const hardProtected = protectedImg && readPixels(protectedImg, width, height);
+    const softProtected = protectedImg && readPixels(protectedImg, width, height, blur);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for mask compositing.');
+    }
+    const output = ctx.createImageData(width, height);
+    const out = output.data;
+    for (let i = 0; i < out.length; i += 4) {
+        // Blurred masks soften the edges, but only towards the editable side: inside a locked
+        // region, or outside the edit region, the weight of the generated pixel is always zero.
+        let weight = 1;
+        if (hardEdit && softEdit) {
+            weight *= hardEdit[i] > 127 ? softEdit[i] / 255 : 0;
+        }
+        if (hardProtected && softProtected) {
+            weight *= hardProtected[i] > 127 ? 0 : 1 - softProtected[i] / 255;
+        }
+        out[i] = sourcePixels[i] + (generatedPixels[i] - sourcePixels[i]) * weight;
+        out[i + 1] = sourcePixels[i + 1] + (generatedPixels[i + 1] - sourcePixels[i + 1]) * weight;
+        out[i + 2] = sourcePixels[i + 2] + (generatedPixels[i + 2] - sourcePixels[i + 2]) * weight;
+        out[i + 3] = 255;
+    }
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders a binary mask as a tinted, transparent overlay for display on top of the image.
+ * @param mask A binary mask; its white area is tinted.
+ * @param color The CSS colour of the tint.
+ * @param maxDimension The longest side of the overlay, kept small since it is only for display.
+ * @returns A promise that resolves to a PNG data URL.
+ */
+export const createMaskOverlay = async (mask: File, color: string, maxDimension: number = 1024): Promise<string> => {
+    const maskImg = await loadImage(mask);
+    const scale = Math.min(1, maxDimension / Math.max(maskImg.naturalWidth, maskImg.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(maskImg.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(maskImg.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the mask overlay.');
+    }
+    ctx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+    // Turn white into opaque and black into transparent, then paint the colour through it.
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = data[i] > 127 ? 255 : 0;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './fileUtils';
+
+// Aspect ratios the image model can produce, as width:height.
+const SUPPORTED_ASPECT_RATIOS: [number, number][] = [
+    [1, 1], [2, 3], [3, 2], [3, 4], [4, 3], [4, 5], [5, 4], [9, 16], [16, 9], [21, 9],
+];
+
+// Where the photo sits inside the canvas sent to the model, as fractions of the canvas size.
+// Fractions rather than pixels, so the box still applies if the model answers at a different size.
+export interface ContentBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ModelInputLayout {
+    // The aspect ratio requested from the model, e.g. "4:3".
+    aspectRatio: string;
+    width: number;
+    height: number;
+    content: ContentBox;
+    // Whether the canvas has room around the photo that had to be filled.
+    isPadded: boolean;
+}
+
+/**
+ * Picks the supported aspect ratio closest to an image's and works out how the image fits into it.
+ * @param width The width of the image.
+ * @param height The height of the image.
+ * @param longSide The longest side of the canvas sent to the model.
+ * @returns The canvas size, the aspect ratio to request and where the image goes on the canvas.
+ */
+export const getModelInputLayout = (width: number, height: number, longSide: number): ModelInputLayout => {
+    const imageRatio = width / height;
+    // Compare on a log scale so 2:1 is as far from 1:1 as 1:2 is.
+    const [ratioWidth, ratioHeight] = SUPPORTED_ASPECT_RATIOS.reduce((best, candidate) =>
+        Math.abs(Math.log(candidate[0] / candidate[1] / imageRatio)) < Math.abs(Math.log(best[0] / best[1] / imageRatio)) ? candidate : best);
+    const canvasRatio = ratioWidth / ratioHeight;
+    const canvasWidth = canvasRatio >= 1 ? longSide : Math.round(longSide * canvasRatio);
+    const canvasHeight = canvasRatio >= 1 ? Math.round(longSide / canvasRatio) : longSide;
+
+    // Fit the image inside the canvas without cropping it.
+    const scale = Math.min(canvasWidth / width, canvasHeight / height);
+    const contentWidth = width * scale;
+    const contentHeight = height * scale;
+    return {
+        aspectRatio: `${ratioWidth}:${ratioHeight}`,
+        width: canvasWidth,
+        height: canvasHeight,
+        content: {
+            x: (canvasWidth - contentWidth) / 2 / canvasWidth,
+            y: (canvasHeight - contentHeight) / 2 / canvasHeight,
+            width: contentWidth / canvasWidth,
+            height: contentHeight / canvasHeight,
+        },
+        // Less than a pixel of slack is absorbed by resampling.
+        isPadded: canvasWidth - contentWidth >= 1 || canvasHeight - contentHeight >= 1,
+    };
+};
+
+/**
+ * Draws an image onto the canvas described by a layout and returns it as a file for the model.
+ * Photos are padded with blurred mirror images of their own edges, so the model sees a plausible continuation
+ * rather than hard black bars it might copy; masks are padded with black, which means "do not edit".
+ * @param file The image to draw.
+ * @param layout The canvas size and content box, from getModelInputLayout.
+ * @param kind 'photo' for scene images, 'mask' for black-and-white masks.
+ * @returns A promise that resolves to a JPEG file for photos or a PNG file for masks, which must stay crisp.
+ */
+export const createModelInput = async (file: File, layout: ModelInputLayout, kind: 'photo' | 'mask' = 'photo'): Promise<File> => {
+    const img = await loadImage(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    ctx.imageSmoothingQuality = 'high';
+
+    const x = layout.content.x * layout.width;
+    const y = layout.content.y * layout.height;
+    const w = layout.content.width * layout.width;
+    const h = layout.content.height * layout.height;
+
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    if (kind === 'photo' && layout.isPadded) {
+        ctx.filter = `blur(${Math.max(4, Math.round(Math.max(layout.width, layout.height) / 64))}px)`;
+        // A stretched copy underneath covers padding wider than the mirrored edges can reach.
+        ctx.drawImage(img, 0, 0, layout.width, layout.height);
+        for (const dx of [-1, 0, 1]) {
+            for (const dy of [-1, 0, 1]) {
+                if (dx === 0 && dy === 0) continue;
+                ctx.save();
+                // Flip around the shared edge so each neighbour mirrors the photo.
+                ctx.translate(dx === 0 ? x : x + (dx > 0 ? 2 * w : 0), dy === 0 ? y : y + (dy > 0 ? 2 * h : 0));
+                ctx.scale(dx === 0 ? 1 : -1, dy === 0 ? 1 : -1);
+                ctx.drawImage(img, 0, 0, w, h);
+                ctx.restore();
+            }
+        }
+        ctx.filter = 'none';
+    }
+    ctx.drawImage(img, x, y, w, h);
+
+    const outputType = kind === 'mask' ? 'image/png' : 'image/jpeg';
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], file.name, { type: outputType, lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, outputType, 0.95);
+    });
+};
+
+/**
+ * Cuts the photo area back out of a model output, measured on the size the model actually returned.
+ * @param imageDataUrl The model output.
+ * @param content Where the photo was on the canvas sent to the model.
+ * @returns A promise that resolves to a lossless PNG data URL of the cropped image.
+ */
+export const cropToContent = async (imageDataUrl: string, content: ContentBox): Promise<string> => {
+    const img = await loadImage(imageDataUrl);
+    const sx = content.x * img.naturalWidth;
+    const sy = content.y * img.naturalHeight;
+    const sw = content.width * img.naturalWidth;
+    const sh = content.height * img.naturalHeight;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw));
+    canvas.height = Math.max(1, Math.round(sh));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for cropping.');
+    }
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    // Lossless, so later steps don't add compression artifacts.
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacedProduct } from '../types';
+import { loadImage } from './fileUtils';
+import { ModelInputLayout } from './modelInput';
+import { clampBoxToScene } from './products';
+
+// Outline colours of the products in a guide, in order; there are never more products than colours.
+export const GUIDE_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#ec4899'];
+
+/**
+ * Draws a placement guide: the scene as sent to the model, dimmed, with each product that has a box drawn
+ * translucently inside it and outlined with its number, so the model can see the position, size and rotation asked for.
+ * @param scene The scene as sent to the model, from createModelInput.
+ * @param layout The layout the scene was drawn with, used to map boxes from the photo onto the canvas.
+ * @param products The products of the request; those without a box are left out of the guide.
+ * @returns A promise that resolves to a PNG file of the guide.
+ */
+export const createPlacementGuide = async (scene: File, layout: ModelInputLayout, products: PlacedProduct[]): Promise<File> => {
+    const sceneImg = await loadImage(scene);
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the placement guide.');
+    }
+    ctx.drawImage(sceneImg, 0, 0, layout.width, layout.height);
+    // Dimming the scene keeps the products and outlines the clearest things in the guide.
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fillRect(0, 0, layout.width, layout.height);
+
+    const contentX = layout.content.x * layout.width;
+    const contentY = layout.content.y * layout.height;
+    const contentWidth = layout.content.width * layout.width;
+    const contentHeight = layout.content.height * layout.height;
+    const lineWidth = Math.max(2, Math.round(Math.max(layout.width, layout.height) / 300));
+    const fontSize = lineWidth * 8;
+
+    for (const [index, product] of products.entries()) {
+        if (!product.box) continue;
+        const box = clampBoxToScene(product.box);
+        const productImg = await loadImage(product.image);
+        const width = box.width * contentWidth;
+        const height = box.height * contentHeight;
+        const color = GUIDE_COLORS[index % GUIDE_COLORS.length];
+
+        ctx.save();
+        ctx.translate(contentX + (box.x + box.width / 2) * contentWidth, contentY + (box.y + box.height / 2) * contentHeight);
+        ctx.rotate(box.rotation * Math.PI / 180);
+        // Fit the product inside its box the way the editor preview shows it.
+        const scale = Math.min(width / productImg.naturalWidth, height / productImg.naturalHeight);
+        const drawWidth = productImg.naturalWidth * scale;
+        const drawHeight = productImg.naturalHeight * scale;
+        ctx.globalAlpha = 0.8;
+        ctx.drawImage(productImg, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = lineWidth;
+        ctx.strokeRect(-width / 2, -height / 2, width, height);
+
+        const label = String(index + 1);
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        const labelWidth = ctx.measureText(label).width + fontSize * 0.6;
+        ctx.fillStyle = color;
+        ctx.fillRect(-width / 2, -height / 2, labelWidth, fontSize * 1.3);
+        ctx.fillStyle = 'white';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(label, -width / 2 + fontSize * 0.3, -height / 2 + fontSize * 0.65);
+        ctx.restore();
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], 'placement-guide.png', { type: 'image/png', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
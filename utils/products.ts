@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationInputs, PlacedProduct, Product, ProductCategory, ProductDimensions, SceneBox, ScenePoint } from '../types';
+
+// Most products a single generation can place; each one is another reference image for the model.
+export const MAX_PLACED_PRODUCTS = 4;
+
+export const PRODUCT_CATEGORIES: { id: ProductCategory; label: string }[] = [
+    { id: 'furniture', label: 'Furniture' },
+    { id: 'lighting', label: 'Lighting' },
+    { id: 'planter', label: 'Planters' },
+    { id: 'cladding', label: 'Cladding' },
+    { id: 'other', label: 'Other' },
+];
+
+// Helper to write dimensions the way they're usually quoted, e.g. "120 × 75 × 60 cm" (width × height × depth)
+export const formatDimensions = ({ width, height, depth, unit }: ProductDimensions): string =>
+    `${[width, height, depth].filter((value): value is number => value !== null).join(' × ')} ${unit}`;
+
+// Helper to check whether a product matches a search: every word must appear in its name, tags or category
+export const matchesProductQuery = (product: Product, query: string): boolean => {
+    const haystack = [product.name, product.category, ...product.tags].join(' ').toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// Helper to turn comma-separated text into a list of distinct, lower-case tags
+export const parseTags = (text: string): string[] =>
+    Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+// Helper to get the products of a generation
+export const getPlacedProducts = (inputs: GenerationInputs): PlacedProduct[] => inputs.products ?? [];
+
+// Helper to make a product from the library ready to place, optionally in an area of the scene
+export const createPlacedProduct = (product: Product, box: SceneBox | null = null): PlacedProduct => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: product.name,
+    image: product.image,
+    point: null,
+    box,
+    dimensions: product.dimensions,
+});
+
+/**
+ * Makes the starting box for a product placed on the scene: upright, with the product's proportions
+ * and a size that reads clearly without covering much of the scene.
+ * @param centre Where the box is centred, as fractions of the scene.
+ * @param productAspect The width of the product image divided by its height.
+ * @param sceneAspect The width of the scene divided by its height.
+ * @returns A box that lies inside the scene.
+ */
+export const createProductBox = (centre: ScenePoint, productAspect: number, sceneAspect: number): SceneBox => {
+    // Start at a quarter of the scene's width, or less when that would make a tall product over half its height.
+    let width = 0.25;
+    let height = width * sceneAspect / productAspect;
+    if (height > 0.5) {
+        width *= 0.5 / height;
+        height = 0.5;
+    }
+    return {
+        x: Math.min(1 - width, Math.max(0, centre.x - width / 2)),
+        y: Math.min(1 - height, Math.max(0, centre.y - height / 2)),
+        width,
+        height,
+        rotation: 0,
+    };
+};
+
+// Helper to trim a box to the scene, so it never reaches past an edge even if it was stored that way
+export const clampBoxToScene = (box: SceneBox): SceneBox => {
+    const left = Math.min(1, Math.max(0, box.x));
+    const top = Math.min(1, Math.max(0, box.y));
+    const right = Math.min(1, Math.max(left, box.x + box.width));
+    const bottom = Math.min(1, Math.max(top, box.y + box.height));
+    return { ...box, x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Helper to get the centre of a box, which rotation leaves in place
+export const getBoxCentre = (box: SceneBox): ScenePoint => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Progress of a retried request, reported before each attempt starts.
+export interface AttemptInfo {
+    attempt: number;
+    maxAttempts: number;
+    // Why the previous attempt failed, when this is a retry.
+    lastError?: string;
+}
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    // Delay before the first retry; doubled for every following one.
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    // Per-attempt time limit. Timed out attempts are retried like network errors.
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    onAttempt?: (info: AttemptInfo) => void;
+}
+
+const RETRYABLE_STATUS_PATTERN = /\b(408|429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL/;
+
+// Helper to create the error thrown when the user cancels a request
+export const createCancelledError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// Helper to create the error thrown when an attempt runs out of time
+const createTimeoutError = (timeoutMs: number) => new DOMException(`The request timed out after ${Math.round(timeoutMs / 1000)}s.`, 'TimeoutError');
+
+export const isCancelledError = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Rate limits, server errors, timeouts and dropped connections are worth another try;
+// anything else (bad request, invalid key, blocked content) will fail the same way again.
+export const isRetryableError = (error: unknown): boolean => {
+    if (error instanceof DOMException) {
+        return error.name === 'TimeoutError';
+    }
+    // fetch reports network failures as a TypeError.
+    if (error instanceof TypeError) {
+        return true;
+    }
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    return error instanceof Error && RETRYABLE_STATUS_PATTERN.test(error.message);
+};
+
+// Helper to wait for a delay, stopping early if the signal is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(signal.reason ?? createCancelledError());
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason ?? createCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// Helper to settle as soon as the signal aborts, even if the task itself ignores the signal
+const raceWithSignal = <T>(task: Promise<T>, signal: AbortSignal): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        task.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+/**
+ * Runs an async task, retrying retryable failures with exponential backoff.
+ * Each attempt gets its own signal, aborted on timeout or when the caller's signal is aborted.
+ * @param task The work to run; it should pass the given signal on to any network calls.
+ * @param options Attempt limits, timeout, cancellation signal and progress callback.
+ * @returns A promise that resolves to the task's result.
+ * @throws The last attempt's error, or a cancelled error if the caller's signal was aborted.
+ */
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 15000, timeoutMs, signal, onAttempt } = options;
+    let lastError: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw createCancelledError();
+        onAttempt?.({ attempt, maxAttempts, lastError });
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(createCancelledError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const timer = timeoutMs ? setTimeout(() => controller.abort(createTimeoutError(timeoutMs)), timeoutMs) : undefined;
+
+        try {
+            return await raceWithSignal(task(controller.signal), controller.signal);
+        } catch (error) {
+            // Libraries wrap aborts in their own errors, so trust the signal over the thrown value.
+            const cause = controller.signal.aborted ? controller.signal.reason : error;
+            if (signal?.aborted) throw createCancelledError();
+            if (attempt >= maxAttempts || !isRetryableError(cause)) throw cause;
+
+            lastError = cause instanceof Error ? cause.message : String(cause);
+            console.warn(`Attempt ${attempt} of ${maxAttempts} failed, retrying:`, cause);
+            // Exponential backoff plus up to 20% jitter so parallel requests do not retry in lockstep.
+            const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (1 + Math.random() * 0.2);
+            await sleep(delay, signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+};
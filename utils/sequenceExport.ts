@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { loadImage, readPixels } from './fileUtils';
+import { sleep } from './retry';
+
+// Helper to load every frame and work out a shared output size from the first one
+const loadFrames = async (frames: Blob[], maxDimension: number) => {
+    if (frames.length === 0) {
+        throw new Error('The sequence has no frames to export.');
+    }
+    const images = await Promise.all(frames.map(frame => loadImage(frame)));
+    const scale = Math.min(1, maxDimension / Math.max(images[0].naturalWidth, images[0].naturalHeight));
+    return {
+        images,
+        width: Math.max(1, Math.round(images[0].naturalWidth * scale)),
+        height: Math.max(1, Math.round(images[0].naturalHeight * scale)),
+    };
+};
+
+/**
+ * Encodes a sequence of images as a looping animated GIF.
+ * @param frames The frames in playback order; all are scaled to the size of the first.
+ * @param frameDelayMs How long each frame is shown.
+ * @param maxDimension The longest side of the animation. GIFs grow quickly, so this is kept modest.
+ * @returns A promise that resolves to the GIF.
+ */
+export const exportSequenceAsGif = async (frames: Blob[], frameDelayMs: number, maxDimension: number = 640): Promise<Blob> => {
+    const { images, width, height } = await loadFrames(frames, maxDimension);
+    const gif = GIFEncoder();
+    images.forEach(img => {
+        const pixels = readPixels(img, width, height);
+        // Each frame gets its own palette, since rotated views can have quite different colours.
+        const palette = quantize(pixels, 256);
+        gif.writeFrame(applyPalette(pixels, palette), width, height, { palette, delay: frameDelayMs, repeat: 0 });
+    });
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+/**
+ * Records a sequence of images as a WebM video, playing it once in real time.
+ * @param frames The frames in playback order; all are scaled to the size of the first.
+ * @param frameDelayMs How long each frame is shown.
+ * @param maxDimension The longest side of the video.
+ * @returns A promise that resolves to the video.
+ */
+export const exportSequenceAsWebm = async (frames: Blob[], frameDelayMs: number, maxDimension: number = 1280): Promise<Blob> => {
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+        .find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error('This browser cannot record WebM video.');
+    }
+    const { images, width, height } = await loadFrames(frames, maxDimension);
+    const canvas = document.createElement('canvas');
+    // Even dimensions keep video encoders happy.
+    canvas.width = width - (width % 2);
+    canvas.height = height - (height % 2);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the video.');
+    }
+    ctx.drawImage(images[0], 0, 0, canvas.width, canvas.height);
+
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+        recorder.onstop = () => resolve();
+        recorder.onerror = () => reject(new Error('Video recording failed.'));
+    });
+
+    recorder.start();
+    for (const img of images) {
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        await sleep(frameDelayMs);
+    }
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Lays out a sequence of images on a single sheet, each captioned with its label.
+ * @param frames The frames in reading order.
+ * @param labels A caption for each frame.
+ * @param columns The number of frames per row.
+ * @param tileWidth The width of each frame on the sheet.
+ * @returns A promise that resolves to the contact sheet as a PNG.
+ */
+export const createContactSheet = async (frames: Blob[], labels: string[], columns: number = 4, tileWidth: number = 480): Promise<Blob> => {
+    const { images, width, height } = await loadFrames(frames, Number.MAX_SAFE_INTEGER);
+    const tileHeight = Math.round(tileWidth * height / width);
+    const gap = 16;
+    const captionHeight = 28;
+    const cols = Math.min(columns, images.length);
+    const rows = Math.ceil(images.length / cols);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cols * tileWidth + (cols + 1) * gap;
+    canvas.height = rows * (tileHeight + captionHeight) + (rows + 1) * gap;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the contact sheet.');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.font = '16px sans-serif';
+    ctx.textBaseline = 'middle';
+
+    images.forEach((img, index) => {
+        const x = gap + (index % cols) * (tileWidth + gap);
+        const y = gap + Math.floor(index / cols) * (tileHeight + captionHeight + gap);
+        ctx.drawImage(img, x, y, tileWidth, tileHeight);
+        ctx.fillStyle = '#111827';
+        ctx.fillText(labels[index] ?? `Frame ${index + 1}`, x, y + tileHeight + captionHeight / 2, tileWidth);
+    });
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { MAX_OUTPUT_PIXELS, capOutputSize, restoreResolution } from './upscale';
+import { dataURLtoFile, loadImage, readPixels } from './fileUtils';
+import { createTestImage, getSize } from '../test/images';
+
+// Helper to draw a photo whose only detail is one-pixel stripes, which shrinking to half size blurs away entirely
+const createStripedImage = (width: number, height: number): File => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    for (let x = 0; x < width; x++) {
+        ctx.fillStyle = x % 2 ? '#d0d0d0' : '#303030';
+        ctx.fillRect(x, 0, 1, height);
+    }
+    return dataURLtoFile(canvas.toDataURL('image/png'), 'scene.png');
+};
+
+// Helper to shrink an image, as the model sees it at the working resolution
+const shrink = async (source: File, width: number, height: number): Promise<string> => {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+// Helper to measure the mean channel difference between two images of the same size
+const meanDifference = async (a: Blob | string, b: Blob | string, width: number, height: number): Promise<number> => {
+    const [aPixels, bPixels] = await Promise.all([a, b].map(async source => readPixels(await loadImage(source), width, height)));
+    let total = 0;
+    for (let i = 0; i < aPixels.length; i += 4) {
+        total += Math.abs(aPixels[i] - bPixels[i]) + Math.abs(aPixels[i + 1] - bPixels[i + 1]) + Math.abs(aPixels[i + 2] - bPixels[i + 2]);
+    }
+    return total / (width * height * 3);
+};
+
+describe('capOutputSize', () => {
+    it('leaves sizes within the limit unchanged', () => {
+        expect(capOutputSize(4000, 3000)).toEqual({ width: 4000, height: 3000 });
+    });
+
+    it('shrinks larger sizes to the limit, keeping the aspect ratio', () => {
+        const { width, height } = capOutputSize(6000, 4000);
+        expect(width * height).toBeLessThanOrEqual(MAX_OUTPUT_PIXELS);
+        expect(width / height).toBeCloseTo(1.5, 3);
+    });
+});
+
+describe('restoreResolution', () => {
+    it('scales the model output to the requested size and restores detail from the source', async () => {
+        const source = await createTestImage(900, 600);
+        const generated = await createTestImage(450, 300);
+
+        const result = await restoreResolution(URL.createObjectURL(generated), 900, 600, source);
+
+        expect(await getSize(result)).toEqual({ width: 900, height: 600 });
+    });
+
+    it('brings back the source detail where the model output is unchanged', async () => {
+        const source = createStripedImage(900, 600);
+        // An unchanged output: the source as the model saw it, with the stripes blurred to grey.
+        const generated = await shrink(source, 450, 300);
+
+        const restored = await restoreResolution(generated, 900, 600, source);
+        const resized = await restoreResolution(generated, 900, 600, null);
+
+        const restoredError = await meanDifference(restored, source, 900, 600);
+        const resizedError = await meanDifference(resized, source, 900, 600);
+        expect(resizedError).toBeGreaterThan(40);
+        expect(restoredError).toBeLessThan(resizedError / 4);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, readPixels } from './fileUtils';
+
+// Rows processed at a time, so the detail transfer holds only a few bands of source pixels at once.
+// The output itself is still a full-size canvas and data URL, which MAX_OUTPUT_PIXELS keeps affordable.
+const BAND_HEIGHT = 512;
+// Largest result, in pixels, that restoring or compositing will produce; bigger photos are matched in aspect ratio
+// at this size. A 24 MP photo would otherwise need several hundred MB of pixel buffers at once and can crash the tab.
+export const MAX_OUTPUT_PIXELS = 12_000_000;
+// Channel difference between the model output and the source below which the source's detail is fully restored,
+// and above which the area counts as redesigned and none is.
+const DETAIL_MATCH_LOW = 12;
+const DETAIL_MATCH_HIGH = 40;
+
+// Helper to draw an image scaled to the full output size and read back the rows of one band.
+// Drawing the whole image and offsetting it keeps resampling identical across band edges, so no seams appear.
+const readBand = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, width: number, height: number, top: number): Uint8ClampedArray => {
+    const bandHeight = ctx.canvas.height;
+    ctx.clearRect(0, 0, width, bandHeight);
+    ctx.drawImage(img, 0, -top, width, height);
+    return ctx.getImageData(0, 0, width, bandHeight).data;
+};
+
+// Helper to build a map of where the model output still matches the source, white meaning unchanged
+const createMatchMap = (generated: HTMLImageElement, source: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+    const generatedPixels = readPixels(generated, width, height, 'blur(1px)');
+    const sourcePixels = readPixels(source, width, height, 'blur(1px)');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the detail map.');
+    }
+    const map = ctx.createImageData(width, height);
+    const out = map.data;
+    for (let i = 0; i < out.length; i += 4) {
+        const diff = Math.max(
+            Math.abs(generatedPixels[i] - sourcePixels[i]),
+            Math.abs(generatedPixels[i + 1] - sourcePixels[i + 1]),
+            Math.abs(generatedPixels[i + 2] - sourcePixels[i + 2]),
+        );
+        const match = 1 - Math.min(1, Math.max(0, (diff - DETAIL_MATCH_LOW) / (DETAIL_MATCH_HIGH - DETAIL_MATCH_LOW)));
+        out[i] = out[i + 1] = out[i + 2] = Math.round(match * 255);
+        out[i + 3] = 255;
+    }
+    ctx.putImageData(map, 0, 0);
+    return canvas;
+};
+
+/**
+ * Limits an output size to MAX_OUTPUT_PIXELS, keeping its aspect ratio.
+ * @param width The requested width.
+ * @param height The requested height.
+ * @returns The requested size, or the largest size with the same aspect ratio that fits the limit.
+ */
+export const capOutputSize = (width: number, height: number): { width: number; height: number } => {
+    const scale = Math.min(1, Math.sqrt(MAX_OUTPUT_PIXELS / (width * height)));
+    return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+};
+
+/**
+ * Scales a model output back to the size of the photo it was made from, up to MAX_OUTPUT_PIXELS.
+ * Where a detail source is given and the output still matches it, the fine detail the model never saw
+ * (everything lost when the source was shrunk to the working resolution) is copied back from the source;
+ * redesigned areas are upscaled smoothly.
+ * @param generatedImageUrl The model output, already cropped to the target aspect ratio.
+ * @param targetWidth The width of the result, normally that of the original photo; capped with capOutputSize.
+ * @param targetHeight The height of the result.
+ * @param detailSource The image the output was edited from, or null when the view changed and nothing lines up.
+ * @returns A promise that resolves to a lossless PNG data URL of the result.
+ */
+export const restoreResolution = async (
+    generatedImageUrl: string,
+    targetWidth: number,
+    targetHeight: number,
+    detailSource: File | null,
+): Promise<string> => {
+    const { width, height } = capOutputSize(targetWidth, targetHeight);
+    const [generatedImg, sourceImg] = await Promise.all([
+        loadImage(generatedImageUrl),
+        detailSource ? loadImage(detailSource) : null,
+    ]);
+    const workingWidth = generatedImg.naturalWidth;
+    const workingHeight = generatedImg.naturalHeight;
+
+    // The source as the model saw it: shrunk to the working size. Subtracting its upscaled version from
+    // the full-size source leaves only the detail the model could not have reproduced.
+    let sourceLow: HTMLCanvasElement | null = null;
+    let matchMap: HTMLCanvasElement | null = null;
+    if (sourceImg) {
+        sourceLow = document.createElement('canvas');
+        sourceLow.width = workingWidth;
+        sourceLow.height = workingHeight;
+        const lowCtx = sourceLow.getContext('2d');
+        if (!lowCtx) {
+            throw new Error('Could not get canvas context for the detail source.');
+        }
+        lowCtx.imageSmoothingQuality = 'high';
+        lowCtx.drawImage(sourceImg, 0, 0, workingWidth, workingHeight);
+        matchMap = createMatchMap(generatedImg, sourceImg, workingWidth, workingHeight);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    const band = document.createElement('canvas');
+    band.width = width;
+    band.height = Math.min(BAND_HEIGHT, height);
+    const bandCtx = band.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !bandCtx) {
+        throw new Error('Could not get canvas context for upscaling.');
+    }
+    bandCtx.imageSmoothingQuality = 'high';
+
+    for (let top = 0; top < height; top += BAND_HEIGHT) {
+        const rows = Math.min(BAND_HEIGHT, height - top);
+        const output = ctx.createImageData(width, rows);
+        const out = output.data;
+        const generated = readBand(bandCtx, generatedImg, width, height, top);
+        out.set(generated.subarray(0, out.length));
+        if (sourceImg && sourceLow && matchMap) {
+            const source = readBand(bandCtx, sourceImg, width, height, top);
+            const low = readBand(bandCtx, sourceLow, width, height, top);
+            const match = readBand(bandCtx, matchMap, width, height, top);
+            for (let i = 0; i < out.length; i += 4) {
+                const weight = match[i] / 255;
+                if (weight === 0) continue;
+                out[i] = generated[i] + (source[i] - low[i]) * weight;
+                out[i + 1] = generated[i + 1] + (source[i + 1] - low[i + 1]) * weight;
+                out[i + 2] = generated[i + 2] + (source[i + 2] - low[i + 2]) * weight;
+            }
+        }
+        for (let i = 3; i < out.length; i += 4) out[i] = 255;
+        ctx.putImageData(output, 0, top);
+    }
+    return canvas.toDataURL('image/png');
+};